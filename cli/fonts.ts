@@ -0,0 +1,44 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { findBundledFaces } from '../src/fonts/presetFonts';
+import type { SvgFontFace } from '../src/render/svg';
+import type { SvgFontMode } from '../src/export/settings';
+
+// 同梱フォント（public/fonts）の場所
+// ビルド後は dist-cli/ から、開発中は cli/ から 1 つ上がったところに public/ がある
+export const DEFAULT_PUBLIC_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..', 'public');
+
+// reference で書き込むフォントの絶対 URL
+// fontBase（フォントを置いた公開先）がなければ public/ のファイルを file:// で指す（SVG 単体で開いても読める）
+function fontUrl(file: string, publicDir: string, fontBase?: string) {
+  if (fontBase === undefined) return pathToFileURL(join(publicDir, file)).href;
+  return new URL(file.replace(/^\//, ''), fontBase.endsWith('/') ? fontBase : `${fontBase}/`).href;
+}
+
+// export/svg.ts の resolveFontFaces と同じ扱い（embed は data URI、reference は絶対 URL）
+export async function resolveFontFaces(
+  fontFamilies: string[],
+  mode: SvgFontMode,
+  publicDir = DEFAULT_PUBLIC_DIR,
+  fontBase?: string,
+): Promise<SvgFontFace[]> {
+  if (mode === 'none') return [];
+
+  const faces = new Map(fontFamilies.flatMap(findBundledFaces).map(face => [face.name, face]));
+
+  return Promise.all([...faces.values()].map(async (face) => {
+    if (mode === 'reference') {
+      return { family: face.name, src: fontUrl(face.file, publicDir, fontBase), format: face.format };
+    }
+
+    const path = join(publicDir, face.file);
+    let data: Buffer;
+    try {
+      data = await readFile(path);
+    } catch {
+      throw new Error(`フォントを読み込めません: ${path}（--public-dir で public/ の場所を指定できます）`);
+    }
+    return { family: face.name, src: `data:font/${face.format};base64,${data.toString('base64')}`, format: face.format };
+  }));
+}
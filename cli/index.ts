@@ -0,0 +1,217 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { EXPORT_SIZE_PRESETS, DEFAULT_EXPORT_SETTINGS, clampExportSide, type ExportSettings, type SvgFontMode } from '../src/export/settings';
+import { presetFonts } from '../src/fonts/presetFonts';
+import { DEFAULT_TEXT_STYLE, createLayer, type TextLayer } from '../src/model/layers';
+import { DEFAULT_PRESETS, applyPresetConfig, mergePresets, parsePresetPack, type Preset } from '../src/model/presets';
+import { parseProject, type ProjectDocument } from '../src/model/project';
+import { ValidationError, asEnum, asNumber } from '../src/model/validate';
+import { isHexColor } from '../src/render/gradient';
+import { renderLayersSvg } from '../src/render/svg';
+import type { Background } from '../src/render/types';
+import { DEFAULT_PUBLIC_DIR, resolveFontFaces } from './fonts';
+
+// ブラウザを使わずにタイトルを SVG で書き出す（スクリプトからの一括生成用）
+// 文字幅はフォントを読めないので近似値で配置する。見た目のフォントは SVG を開いた側で描かれる
+
+const EXIT_FAILURE = 1;         // 読み書きの失敗など
+const EXIT_USAGE = 2;           // 引数・入力ファイル・プリセット名の誤り
+
+const USAGE = `使い方: text-generator render [オプション] --out <file.svg>
+
+入力（--text / --text-file / --project のどれかが必要）
+  --text <文字列>          テキスト（アプリと同じ記法 {color=..|..}・｜漢字《かんじ》 が使える）
+  --text-file <path>       テキストをファイルから読む
+  --project <path>         プロジェクトファイル（.json）。--text を付けると一番手前のレイヤーを差し替える
+  --preset <名前>          プリセットを適用する（組み込み: ${DEFAULT_PRESETS.map(p => p.name).join(' / ')}）
+  --preset-file <path>     プリセット集（.json）を読み込む（複数可）
+
+スタイル（プリセットより後に適用）
+  --font <名前>            ${presetFonts.filter(f => f.face).map(f => f.label).join(' / ')} など
+  --font-size <px>
+  --color <#RRGGBB>        塗りを単色にする（#RGB も可）
+  --vertical               縦書き
+
+出力
+  --out, -o <path>         書き出し先（.svg、- で標準出力）
+  --size <id>              ${EXPORT_SIZE_PRESETS.map(p => p.id).join(' / ')}
+  --width <px> --height <px>
+  --fonts <mode>           embed（既定）/ reference / none
+  --public-dir <path>      同梱フォントを探す public/ の場所
+  --font-base <URL>        reference のときのフォントの置き場所（既定は public/ の file:// URL）
+  --help, -h`;
+
+class CliError extends Error {
+  readonly exitCode: number;
+
+  constructor(message: string, exitCode = EXIT_USAGE) {
+    super(message);
+    this.name = 'CliError';
+    this.exitCode = exitCode;
+  }
+}
+
+async function readText(path: string) {
+  try {
+    return await readFile(path, 'utf8');
+  } catch {
+    throw new CliError(`ファイルを読み込めません: ${path}`, EXIT_FAILURE);
+  }
+}
+
+// 入力ファイルの ValidationError は、どのファイルのどこが悪いかを添えて使い方の誤りとして返す
+async function parseFile<T>(path: string, parse: (json: string) => T): Promise<T> {
+  const json = await readText(path);
+  try {
+    return parse(json);
+  } catch (error) {
+    if (error instanceof ValidationError) throw new CliError(`${path}: ${error.message}`);
+    throw error;
+  }
+}
+
+function numberOption(name: string, value: string, range: { min?: number; max?: number } = {}) {
+  const number = Number(value);
+  if (value.trim() === '' || Number.isNaN(number)) throw new CliError(`--${name}: 数値が必要です（${value}）`);
+  return asNumber(number, `--${name}`, range);
+}
+
+// アプリやプロジェクトファイルと同じく #RGB / #RRGGBB だけを受け付ける
+function colorOption(value: string) {
+  if (!isHexColor(value)) throw new CliError(`--color: #RGB か #RRGGBB の色が必要です（${value}）`);
+  return value;
+}
+
+// 表示名・@font-face 名のどちらでも選べる。知らない名前はシステムフォントの名前として使う
+function resolveFontFamily(name: string) {
+  const key = name.trim().toLowerCase();
+  const font = presetFonts.find(f => f.label.toLowerCase() === key || f.face?.name.toLowerCase() === key);
+  return font?.family ?? name;
+}
+
+function findPreset(presets: Preset[], name: string) {
+  const preset = presets.find(p => p.name === name);
+  if (!preset) {
+    throw new CliError(`プリセット「${name}」が見つかりません。使えるプリセット: ${presets.map(p => p.name).join(' / ')}`);
+  }
+  return preset;
+}
+
+async function render(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      text: { type: 'string' },
+      'text-file': { type: 'string' },
+      project: { type: 'string' },
+      preset: { type: 'string' },
+      'preset-file': { type: 'string', multiple: true },
+      font: { type: 'string' },
+      'font-size': { type: 'string' },
+      color: { type: 'string' },
+      vertical: { type: 'boolean' },
+      out: { type: 'string', short: 'o' },
+      size: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      fonts: { type: 'string' },
+      'public-dir': { type: 'string' },
+      'font-base': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  // サブコマンドは今のところ render だけ（省略してもよい）
+  const [command = 'render', ...rest] = positionals;
+  if (command !== 'render' || rest.length > 0) throw new CliError(`不明なコマンドです: ${positionals.join(' ')}`);
+
+  const out = values.out;
+  if (!out) throw new CliError('--out で書き出し先を指定してください');
+  if (out !== '-' && !out.toLowerCase().endsWith('.svg')) throw new CliError(`SVG（.svg）のみ書き出せます: ${out}`);
+  if (values.text !== undefined && values['text-file'] !== undefined) {
+    throw new CliError('--text と --text-file は同時に指定できません');
+  }
+
+  let text = values.text;
+  if (values['text-file'] !== undefined) text = (await readText(values['text-file'])).replace(/\r?\n$/, '');
+
+  const project: ProjectDocument | null = values.project ? await parseFile(values.project, parseProject) : null;
+  if (!project && text === undefined) throw new CliError('--text / --text-file / --project のどれかを指定してください');
+
+  let presets = DEFAULT_PRESETS;
+  for (const path of values['preset-file'] ?? []) {
+    presets = mergePresets(presets, await parseFile(path, parsePresetPack));
+  }
+
+  // 差し替え・スタイル指定の対象は一番手前のレイヤー（アプリで新しく足したレイヤーと同じ位置）
+  let layers: TextLayer[] = project ? project.layers : [createLayer({ text: text ?? '', style: DEFAULT_TEXT_STYLE })];
+  const target = layers[layers.length - 1];
+  if (!target) throw new CliError(`${values.project}: レイヤーがありません`);
+
+  let style = target.style;
+  if (values.preset !== undefined) style = applyPresetConfig(style, findPreset(presets, values.preset).config);
+  if (values.font !== undefined) style = { ...style, fontFamily: resolveFontFamily(values.font) };
+  if (values['font-size'] !== undefined) style = { ...style, fontSize: numberOption('font-size', values['font-size'], { min: 1 }) };
+  if (values.color !== undefined) style = { ...style, textColorType: 'solid', textColor: colorOption(values.color) };
+  if (values.vertical) style = { ...style, writingMode: 'vertical' };
+  layers = layers.map(layer => (layer === target ? { ...layer, style, text: text ?? layer.text } : layer));
+
+  let settings: ExportSettings = project?.exportSettings ?? DEFAULT_EXPORT_SETTINGS;
+  if (values.size !== undefined) {
+    const id = asEnum(values.size, '--size', EXPORT_SIZE_PRESETS.map(p => p.id));
+    const preset = EXPORT_SIZE_PRESETS.find(p => p.id === id)!;
+    settings = { ...settings, sizePreset: id, width: preset.width, height: preset.height };
+  }
+  if (values.width !== undefined) {
+    settings = { ...settings, sizePreset: 'custom', width: clampExportSide(numberOption('width', values.width, { min: 1 })) };
+  }
+  if (values.height !== undefined) {
+    settings = { ...settings, sizePreset: 'custom', height: clampExportSide(numberOption('height', values.height, { min: 1 })) };
+  }
+
+  const fontMode: SvgFontMode = values.fonts !== undefined
+    ? asEnum(values.fonts, '--fonts', ['embed', 'reference', 'none'] as const)
+    : settings.svgFonts;
+  const fontBase = values['font-base'];
+  if (fontBase !== undefined && !URL.canParse(fontBase)) throw new CliError(`--font-base: 絶対 URL が必要です（${fontBase}）`);
+  const fontFamilies = layers.filter(layer => layer.visible).map(layer => layer.style.fontFamily);
+  const fontFaces = await resolveFontFaces(fontFamilies, fontMode, values['public-dir'] ?? DEFAULT_PUBLIC_DIR, fontBase)
+    .catch((error: Error) => { throw new CliError(error.message, EXIT_FAILURE); });
+
+  // アプリの書き出しと同じく、見本のみの背景は含めない
+  const background: Background | undefined = project && project.background.includeInExport && project.background.type !== 'none'
+    ? project.background
+    : undefined;
+
+  const svg = renderLayersSvg(layers, { width: settings.width, height: settings.height, fontFaces, background });
+  if (out === '-') {
+    process.stdout.write(svg);
+    return;
+  }
+  try {
+    await writeFile(out, svg, 'utf8');
+  } catch {
+    throw new CliError(`書き出せません: ${out}`, EXIT_FAILURE);
+  }
+  console.error(`${out} に書き出しました（${settings.width}×${settings.height}）`);
+}
+
+try {
+  await render(process.argv.slice(2));
+} catch (error) {
+  // parseArgs は知らないオプションなどで TypeError（code: ERR_PARSE_ARGS_*）を投げる
+  const isArgError = error instanceof Error && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS');
+  if (error instanceof CliError || error instanceof ValidationError || isArgError) {
+    console.error(`text-generator: ${error.message}`);
+    if (isArgError) console.error('text-generator --help で使い方を表示します');
+    process.exitCode = error instanceof CliError ? error.exitCode : EXIT_USAGE;
+  } else {
+    console.error('text-generator:', error);
+    process.exitCode = EXIT_FAILURE;
+  }
+}
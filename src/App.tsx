@@ -1,206 +1,453 @@
 // import React, { useState, useEffect, useRef } from 'react';
 import './fonts.css'
-import { useState, useRef, useEffect } from 'react';
-import { Download, Save, Palette, Sun } from 'lucide-react';
-import { Trash2 } from 'lucide-react';
-
-type PresetConfig = {
-  textColor?: string;
-  textColorType: 'solid' | 'gradient';
-  textGradientStart?: string;
-  textGradientEnd?: string;
-  textGradientAngle?: number;
-  border1Color: string;
-  border1Width: number;
-  border2Color: string;
-  border2Width: number;
-  shadowEnabled?: boolean;
-  shadowOffsetX?: number;
-  shadowOffsetY?: number;
-  shadowBlur?: number;
-  shadowOpacity?: number;
-};
-
-type Preset = {
-  name: string;
-  config: PresetConfig;
-};
-
-type FontItem = {
-  label: string;        // UI 表示名
-  family: string;       // ctx.font に渡す font-family
-};
-
-type LocalFont = {
-  family: string;
-  fullName: string;
-  postscriptName: string;
-  style: string;
-};
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import {
+  Download, Save, Palette, FileCode, Undo2, Redo2, FolderOpen, FileDown, FileArchive, Link2, Info, AlertTriangle, X, ClipboardCopy,
+} from 'lucide-react';
+import { measureTextBounds, renderLayers } from './render/renderDecoratedText';
+import { renderBackground } from './render/background';
+import type { Background, Rect, RenderOptions, TextStyle } from './render/types';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import LayerPanel from './components/LayerPanel';
+import StrokeStackEditor from './components/StrokeStackEditor';
+import GradientEditor from './components/GradientEditor';
+import ShadowStackEditor from './components/ShadowStackEditor';
+import TransformEditor from './components/TransformEditor';
+import TextLayoutEditor from './components/TextLayoutEditor';
+import PresetLibrary from './components/PresetLibrary';
+import BackgroundEditor from './components/BackgroundEditor';
+import BatchDialog from './components/BatchDialog';
+import FontUploadPanel from './components/FontUploadPanel';
+import FontBrowser from './components/FontBrowser';
+import HighlightedTextarea from './components/HighlightedTextarea';
+import PreviewToolbar from './components/PreviewToolbar';
+import HistoryPanel from './components/HistoryPanel';
+import AnimationPanel from './components/AnimationPanel';
+import { plainText } from './render/markup';
+import { DEFAULT_EXPORT_SETTINGS, IMAGE_FORMATS, fitSize, type ExportSettings } from './export/settings';
+import { downloadBlob, renderExportImage, type ExportBackground } from './export/png';
+import { exportFilename } from './export/filename';
+import { renderExportSvg } from './export/svg';
+import { presetFonts } from './fonts/presetFonts';
+import { ensureFontsLoaded } from './fonts/loadFonts';
+import { customFontItem, type CustomFont } from './fonts/customFonts';
+import { fontLabel, isFontAvailable } from './fonts/fontAvailability';
+import { buildFontCatalog, groupLocalFonts, type FontEntry, type LocalFontData } from './fonts/fontCatalog';
+import { useCustomFonts } from './hooks/useCustomFonts';
+import { useGlyphCoverage } from './hooks/useGlyphCoverage';
+import { DEFAULT_TEXT_STYLE, createLayer, duplicateLayer, moveItem, type TextLayer } from './model/layers';
+import {
+  PRESET_EXTENSION, applyPresetConfig, loadStoredPresets, mergePresets, parsePresetPack, presetFromStyle,
+  serializePresetPack, storePresets, type Preset,
+} from './model/presets';
+import { describeStyleChange } from './model/history';
+import { useHistory } from './hooks/useHistory';
+import { PROJECT_EXTENSION, parseProject, serializeProject, type ProjectDocument } from './model/project';
+import { decodeShareHash, encodeShareHash } from './model/share';
+import { DEFAULT_BACKGROUND, decodeImage, isImageFile, readBackgroundImage } from './model/background';
+import { NO_GUIDES, snapRect, type SnapGuides } from './model/snapping';
+import { DEFAULT_ANIMATION, animateLayers, type AnimationSettings } from './model/animation';
+import {
+  FIT_VIEW, ZOOM_STEP, layoutViewport, zoomAround, type PreviewView, type PreviewViewport,
+} from './model/viewport';
 
 // TypeScript用のグローバル型拡張
 declare global {
   interface Window {
-    queryLocalFonts?: () => Promise<any[]>;
+    queryLocalFonts?: () => Promise<LocalFontData[]>;
   }
 }
 
-const presetFonts: FontItem[] = [
-  {
-    label: 'Noto Sans JP',
-    family: "MyNotoJP, 'Noto Sans JP', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
-  },
-  {
-    label: 'BIZ UDPゴシック',
-    family: "MyBIZUDPGothic, 'BIZ UDPGothic', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
-  },
-  {
-    label: 'Source Han Sans JP',
-    family: "MySourceHanSansJP, 'Source Han Sans JP', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
-  },
-  {
-    label: 'Arial Black',
-    family: 'Arial Black',
-  },
-  {
-    label: 'Impact',
-    family: 'Impact',
-  },
-  {
-    label: 'Arial',
-    family: 'Arial',
-  },
-  {
-    label: 'Times New Roman',
-    family: 'Times New Roman',
-  },
-  {
-    label: 'Courier New',
-    family: 'Courier New',
-  },
-  {
-    label: 'Comic Sans MS',
-    family: 'Comic Sans MS',
-  },
-];
+type Size = { width: number; height: number };
+
+// キャンバス上のドラッグ操作（座標は画面上の直前の位置。move の offset・bounds は押した時点の値）
+type Gesture =
+  | { kind: 'move'; pointerId: number; layerId: string; x: number; y: number; offsetX: number; offsetY: number; bounds: Rect; scale: number }
+  | { kind: 'pan'; pointerId: number; x: number; y: number }
+  | { kind: 'pinch'; view: PreviewView; distance: number; midX: number; midY: number };
+
+// 吸着する距離（画面上の px）と、矢印キーで動かす量（出力サイズの px）
+const SNAP_DISTANCE = 8;
+const NUDGE = 1;
+const NUDGE_LARGE = 10;
+// 選択枠の四隅の印の大きさ（画面上の px）
+const HANDLE_SIZE = 6;
+const ARROW_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+// 画面上の座標 → キャンバス上の座標（キャンバスの CSS 上の大きさと画素数が違ってもよいように換算する）
+function toCanvasPoint(canvas: HTMLCanvasElement, clientX: number, clientY: number) {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left) * (rect.width > 0 ? canvas.width / rect.width : 1),
+    y: (clientY - rect.top) * (rect.height > 0 ? canvas.height / rect.height : 1),
+  };
+}
 
 
 export default function TextDecoratorApp() {
-  const [text, setText] = useState('サンプル');
-  const [fontSize, setFontSize] = useState(120);
-  const [fontFamily, setFontFamily] = useState(presetFonts[0].family);
+  // レイヤー（配列の後ろほど手前に描画）。変更はすべて履歴を通す
+  const history = useHistory<TextLayer[]>(() => [createLayer()]);
+  const { commit, undo, redo, reset } = history;
+  const layers = history.state;
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(() => layers[0]?.id ?? null);
+
+  // 選択中レイヤーの値をプロパティパネルに表示する
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  const text = selectedLayer?.text ?? '';
+  const {
+    fontFamily, fontWeight, fontStyle, fontSize, lineHeight, writingMode,
+    letterSpacing, textAlign, lineScales, autoFit,
+    textColorType, textColor, textGradient,
+    strokes, shadows, transform,
+  } = selectedLayer?.style ?? DEFAULT_TEXT_STYLE;
 
   // ローカルフォント関連
   const [localFontsAvailable, setLocalFontsAvailable] = useState(false);
-  const [localFonts, setLocalFonts] = useState<LocalFont[]>([]);
+  // ファミリーごとにまとめ、太さ・スタイル違いを variants に持つ
+  const [localFonts, setLocalFonts] = useState<FontEntry[]>([]);
   // const [fontSource, setFontSource] = useState<'preset' | 'local'>('preset');
   // const [isLoadingFonts, setIsLoadingFonts] = useState(false);
 
-  // テキスト色（グラデーション対応）
-  const [textColorType, setTextColorType] = useState<'solid' | 'gradient'>('solid');
-  const [textColor, setTextColor] = useState('#FF0000');
-  const [textGradientStart, setTextGradientStart] = useState('#FF0000');
-  const [textGradientEnd, setTextGradientEnd] = useState('#FF6600');
-  const [textGradientAngle, setTextGradientAngle] = useState(90);
-
-  const [border1Color, setBorder1Color] = useState('#FFFFFF');
-  const [border1Width, setBorder1Width] = useState(8);
-  const [border2Color, setBorder2Color] = useState('#000000');
-  const [border2Width, setBorder2Width] = useState(18);
-  const [shadowEnabled, setShadowEnabled] = useState(true);
-  const [shadowOffsetX, setShadowOffsetX] = useState(8);
-  const [shadowOffsetY, setShadowOffsetY] = useState(8);
-  const [shadowBlur, setShadowBlur] = useState(10);
-  const [shadowOpacity, setShadowOpacity] = useState(0.6);
-
-  // canvasベース座標
-  // const [textPos, setTextPos] = useState({ x: 0, y: 0 }); // offset（ズレ）を管理
+  // 読み込んだフォントファイル（ブラウザに保存して次回も使う）
+  const { fonts: customFonts, addFont, removeFont } = useCustomFonts();
+
+  // ドラッグ中の操作（レイヤーの移動・プレビューのスクロール・2 本指での拡大）
   const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const gestureRef = useRef<Gesture | null>(null);
+  // 画面に触れているポインター（2 本目が触れたら拡大・縮小に切り替える）
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  // 移動中に吸着した線（プレビューにだけ描く）
+  const [guides, setGuides] = useState<SnapGuides>(NO_GUIDES);
+
+  // プレビューの拡大・スクロール（表示だけの状態で、書き出しには影響しない）
+  const [view, setView] = useState<PreviewView>(FIT_VIEW);
+  // 枠の大きさと拡大率から求めた配置（サイズ調整のたびに更新し、描画・当たり判定で使う）
+  const viewportRef = useRef<{ fitted: Size; box: Size; viewport: PreviewViewport } | null>(null);
+
+  // 見えない所までスクロールしないよう、今の枠の大きさで制限してから反映する
+  const updateView = useCallback((update: (prev: PreviewView) => PreviewView) => setView((prev) => {
+    const frame = viewportRef.current;
+    const next = update(prev);
+    return frame ? layoutViewport(frame.fitted, frame.box, next).view : next;
+  }), []);
+
+  // 書き出しサイズ（プレビューもこの縦横比で表示する）
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+
+  // 背景（画像は読み込み済みの要素を別に持ち、描画のたびにデコードしない）
+  const [background, setBackground] = useState<Background>(DEFAULT_BACKGROUND);
+
+  // 登場アニメーション。previewTime が null でなければ、プレビューをその時刻の状態で描く
+  const [animation, setAnimation] = useState<AnimationSettings>(DEFAULT_ANIMATION);
+  const [previewTime, setPreviewTime] = useState<number | null>(null);
+  const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
+  const backgroundSrc = background.image?.src;
 
-    const textPosRef = useRef({ x: 0, y: 0 });
+  useEffect(() => {
+    let cancelled = false;
+    setBackgroundImage(null);
+    if (backgroundSrc) {
+      decodeImage(backgroundSrc)
+        .then(image => { if (!cancelled) setBackgroundImage(image); })
+        .catch(error => console.error('背景画像の読み込みエラー:', error));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [backgroundSrc]);
 
-  // 行間
-  const [lineHeight, setLineHeight] = useState(1.2);
+  const importBackgroundImage = async (file: File) => {
+    try {
+      const image = await readBackgroundImage(file);
+      setBackground(prev => ({ ...prev, type: 'image', image }));
+    } catch (error) {
+      console.error('背景画像の読み込みエラー:', error);
+      alert(`背景画像を読み込めませんでした。\n${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    setIsDragging(true);
-    // クリックした瞬間のマウス座標を記録
-    setDragStart({ x: e.clientX, y: e.clientY });
+  // 書き出しに含める背景（見本のみ・なしのときは透過で書き出す）
+  // 一括書き出しのプレビューが描き直しの判定に使うので、背景が変わったときだけ作り直す
+  const exportBackground = useMemo((): ExportBackground | undefined =>
+    background.includeInExport && background.type !== 'none' ? { background, image: backgroundImage } : undefined,
+  [background, backgroundImage]);
+
+  // mergeKey が同じ操作が続いたら履歴の 1 ステップにまとめる
+  const updateLayer = (id: string, patch: Partial<TextLayer>, label: string, mergeKey?: string) => {
+    commit(label, prev => prev.map(layer => (layer.id === id ? { ...layer, ...patch } : layer)), mergeKey);
   };
 
-const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-  if (!isDragging) return;
+  // 選択中レイヤーのスタイルだけを書き換える
+  const updateStyle = (patch: Partial<TextStyle>) => {
+    if (!selectedLayer) return;
+    const fields = Object.keys(patch).sort().join(',');
+    updateLayer(selectedLayer.id, { style: { ...selectedLayer.style, ...patch } },
+      describeStyleChange(patch), `style:${selectedLayer.id}:${fields}`);
+  };
 
-  const dx = e.clientX - dragStart.x;
-  const dy = e.clientY - dragStart.y;
+  const addLayer = () => {
+    // 新しいレイヤーは選択中のスタイルを引き継ぐ
+    const layer = createLayer({ style: selectedLayer?.style ?? DEFAULT_TEXT_STYLE, presetName: selectedLayer?.presetName ?? null });
+    commit('レイヤーを追加', prev => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  };
 
-  // ref の座標を直接書き換え
-  textPosRef.current = {
-    x: textPosRef.current.x + dx,
-    y: textPosRef.current.y + dy
+  const duplicateLayerById = (id: string) => {
+    const index = layers.findIndex(layer => layer.id === id);
+    if (index < 0) return;
+    const copy = duplicateLayer(layers[index]);
+    commit('レイヤーを複製', prev => [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)]);
+    setSelectedLayerId(copy.id);
   };
 
-  // 次の比較用に dragStart 更新
-  setDragStart({ x: e.clientX, y: e.clientY });
+  const deleteLayer = (id: string) => {
+    commit('レイヤーを削除', prev => prev.filter(layer => layer.id !== id));
+    if (selectedLayerId === id) setSelectedLayerId(null);
+  };
 
-  // ★ 即時描画 ★
-  drawText();
-};
+  const moveLayer = (id: string, delta: number) => {
+    commit('重なり順を変更', prev => moveItem(prev, prev.findIndex(layer => layer.id === id), delta));
+  };
 
-const handleMouseUp = () => {
-  setIsDragging(false);
-  // setTextPos(textPosRef.current); // 状態同期したい場合のみ
-};
+  // プレビュー用キャンバスの描画オプション（出力サイズを拡大率に合わせて縮小・拡大して表示）
+  // 原点は drawText で viewport.originX / originY へずらす
+  const previewOptions = (viewport: PreviewViewport): RenderOptions => ({
+    width: viewport.docWidth,
+    height: viewport.docHeight,
+    scale: viewport.docWidth / exportSettings.width,
+  });
 
-  // const [activeTab, setActiveTab] = useState('text');
-  const DEFAULT_PRESETS: Preset[] =([
-    {
-      name: 'YouTube風', config: {
-        textColor: '#FF0000', border1Color: '#FFFFFF', border1Width: 8,
-        border2Color: '#000000', border2Width: 18, textColorType: 'solid'
-      }
-    },
-    {
-      name: 'ゲーム実況風', config: {
-        textColorType: 'gradient', textGradientStart: '#FFD700', textGradientEnd: '#FF8C00',
-        border1Color: '#000000', border1Width: 10, border2Color: '#FFFFFF', border2Width: 2
-      }
-    },
-    {
-      name: 'シンプル白', config: {
-        textColor: '#FFFFFF', border1Color: '#000000', border1Width: 6,
-        border2Color: '#333333', border2Width: 0, textColorType: 'solid'
-      }
-    },
-    {
-      name: 'ネオン風', config: {
-        textColorType: 'gradient', textGradientStart: '#00FFFF', textGradientEnd: '#FF00FF',
-        border1Color: '#FFFFFF', border1Width: 4, border2Color: '#000000', border2Width: 12
+  // クリック位置にある一番手前のレイヤー（非表示・ロック中は対象外）
+  const hitTestLayer = (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+    const ctx = canvas.getContext('2d');
+    const viewport = viewportRef.current?.viewport;
+    if (!ctx || !viewport) return null;
+
+    const point = toCanvasPoint(canvas, clientX, clientY);
+    const px = point.x - viewport.originX;
+    const py = point.y - viewport.originY;
+    const options = previewOptions(viewport);
+
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const layer = layers[i];
+      if (!layer.visible || layer.locked) continue;
+      const b = measureTextBounds(ctx, layer, options);
+      if (px >= b.x && px <= b.x + b.width && py >= b.y && py <= b.y + b.height) return { layer, bounds: b, options };
+    }
+    return null;
+  };
+
+  // 2 本指の間隔と中点（中点はキャンバスの中心からの距離）
+  const pinchMetrics = (canvas: HTMLCanvasElement) => {
+    const [a, b] = [...pointersRef.current.values()].map(p => toCanvasPoint(canvas, p.x, p.y));
+    return {
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      midX: (a.x + b.x) / 2 - canvas.width / 2,
+      midY: (a.y + b.y) / 2 - canvas.height / 2,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button === 2) return; // 右クリックはメニューに任せる
+    const canvas = e.currentTarget;
+    canvas.focus();
+    canvas.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // 2 本目の指：移動をやめて拡大・縮小にする
+    if (pointersRef.current.size === 2) {
+      gestureRef.current = { kind: 'pinch', view, ...pinchMetrics(canvas) };
+      setGuides(NO_GUIDES);
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
+
+    // 中ボタン、または空いている所を拡大中にドラッグするとスクロール
+    const hit = e.button === 1 ? null : hitTestLayer(canvas, e.clientX, e.clientY);
+    if (e.button !== 1) setSelectedLayerId(hit?.layer.id ?? null);
+    if (!hit) {
+      if (e.button === 1 || view.zoom > 1) {
+        gestureRef.current = { kind: 'pan', pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+        setIsDragging(true);
       }
-    },
-  ]);
+      return;
+    }
 
-  const [presets, setPresets] = useState<Preset[]>(() => {
-  if (typeof window === 'undefined') return DEFAULT_PRESETS; // サーバーサイドレンダリング対策
+    // 吸着の判定に使うため、押した時点の枠を出力サイズ基準で覚えておく
+    const scale = hit.options.scale ?? 1;
+    const { bounds } = hit;
+    gestureRef.current = {
+      kind: 'move',
+      pointerId: e.pointerId,
+      layerId: hit.layer.id,
+      x: e.clientX,
+      y: e.clientY,
+      offsetX: hit.layer.offsetX,
+      offsetY: hit.layer.offsetY,
+      bounds: { x: bounds.x / scale, y: bounds.y / scale, width: bounds.width / scale, height: bounds.height / scale },
+      scale,
+    };
+    setIsDragging(true);
+  };
 
-  const saved = localStorage.getItem('text-decorator-presets');
-  if (saved) {
-    try {
-      const parsed = JSON.parse(saved);
-      // 保存されたデータが空配列でなければ、それを返す
-      if (Array.isArray(parsed) && parsed.length > 0) return parsed;
-    } catch (e) {
-      console.error("読み込み失敗:", e);
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    const canvas = e.currentTarget;
+
+    if (gesture.kind === 'pinch') {
+      if (pointersRef.current.size < 2) return;
+      const { distance, midX, midY } = pinchMetrics(canvas);
+      const zoomed = zoomAround(gesture.view, gesture.view.zoom * (distance / gesture.distance), gesture.midX, gesture.midY);
+      updateView(() => ({ ...zoomed, panX: zoomed.panX + midX - gesture.midX, panY: zoomed.panY + midY - gesture.midY }));
+      return;
     }
-  }
-  // 保存データがない、またはエラーの場合はデフォルト値を返す
-  return DEFAULT_PRESETS;
-});
+    if (gesture.pointerId !== e.pointerId) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const pixelRatio = rect.width > 0 ? canvas.width / rect.width : 1;
+    if (gesture.kind === 'pan') {
+      const dx = (e.clientX - gesture.x) * pixelRatio;
+      const dy = (e.clientY - gesture.y) * pixelRatio;
+      updateView(prev => ({ ...prev, panX: prev.panX + dx, panY: prev.panY + dy }));
+      gestureRef.current = { ...gesture, x: e.clientX, y: e.clientY };
+      return;
+    }
+
+    // 画面上の移動量を出力サイズ基準のピクセルに換算
+    const ratio = pixelRatio / gesture.scale;
+    let dx = (e.clientX - gesture.x) * ratio;
+    let dy = (e.clientY - gesture.y) * ratio;
+
+    // 中央・三分割の線に吸着させる（Alt を押している間は吸着しない）
+    let nextGuides = NO_GUIDES;
+    if (!e.altKey) {
+      const moved = { ...gesture.bounds, x: gesture.bounds.x + dx, y: gesture.bounds.y + dy };
+      const snap = snapRect(moved, exportSettings.width, exportSettings.height, SNAP_DISTANCE / gesture.scale);
+      dx += snap.dx;
+      dy += snap.dy;
+      nextGuides = snap.guides;
+    }
+    setGuides(nextGuides);
+
+    // ドラッグ 1 回分（ボタンを離すまで）を 1 ステップにまとめる
+    commit('レイヤーを移動', prev => prev.map(layer => (layer.id === gesture.layerId
+      ? { ...layer, offsetX: gesture.offsetX + dx, offsetY: gesture.offsetY + dy }
+      : layer)), `move:${gesture.layerId}`);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    const gesture = gestureRef.current;
+    if (gesture && (gesture.kind === 'pinch' || gesture.pointerId === e.pointerId)) {
+      gestureRef.current = null;
+      setIsDragging(false);
+      setGuides(NO_GUIDES);
+    }
+  };
+
+  // 矢印キーで 1px（Shift で 10px）ずつ動かす。+ / - / 0 で拡大・縮小・全体表示
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key === '+' || e.key === '=' || e.key === '-' || e.key === '0') {
+      e.preventDefault();
+      if (e.key === '0') setView(FIT_VIEW);
+      else updateView(prev => zoomAround(prev, e.key === '-' ? prev.zoom / ZOOM_STEP : prev.zoom * ZOOM_STEP));
+      return;
+    }
+
+    const step = e.shiftKey ? NUDGE_LARGE : NUDGE;
+    const delta = ARROW_KEYS[e.key];
+    if (!delta || !selectedLayer || selectedLayer.locked) return;
+    e.preventDefault();
+    updateLayer(selectedLayer.id, {
+      offsetX: selectedLayer.offsetX + delta[0] * step,
+      offsetY: selectedLayer.offsetY + delta[1] * step,
+    }, 'レイヤーを移動', `nudge:${selectedLayer.id}`);
+  };
+
+  // 選択中のレイヤーをキャンバスの中央に戻す
+  const resetLayerPosition = () => {
+    if (!selectedLayer || (selectedLayer.offsetX === 0 && selectedLayer.offsetY === 0)) return;
+    updateLayer(selectedLayer.id, { offsetX: 0, offsetY: 0 }, '位置をリセット');
+  };
+
+  // ホイール：Ctrl（トラックパッドのピンチ）で拡大・縮小、それ以外は拡大中のスクロール
+  // React の onWheel では既定の動作を止められないので、passive: false で登録する
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      const point = toCanvasPoint(canvas, e.clientX, e.clientY);
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const factor = Math.exp(-e.deltaY * 0.002);
+        updateView(prev => zoomAround(prev, prev.zoom * factor, point.x - canvas.width / 2, point.y - canvas.height / 2));
+        return;
+      }
+      const frame = viewportRef.current;
+      if (!frame || frame.viewport.view.zoom <= 1) return;
+      e.preventDefault();
+      updateView(prev => ({ ...prev, panX: prev.panX - e.deltaX, panY: prev.panY - e.deltaY }));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [updateView]);
+
+  // 旧形式のプリセットは読み込み時に現在の形式へ変換する（壊れていれば既定のプリセット）
+  const [presets, setPresets] = useState<Preset[]>(loadStoredPresets);
+
+  // 一覧の更新と localStorage への保存をまとめて行う
+  const updatePresets = (next: Preset[]) => {
+    setPresets(next);
+    storePresets(next);
+  };
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const downloadCanvasRef = useRef<HTMLCanvasElement | null>(null);
   
+  // Ctrl+Z / Ctrl+Shift+Z（Ctrl+Y）で元に戻す・やり直す
+  // 文字入力中は入力欄の取り消しに任せる
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      const editing = target?.isContentEditable || target?.tagName === 'TEXTAREA' ||
+        (target instanceof HTMLInputElement && ['text', 'number', 'search'].includes(target.type));
+      if (editing) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  // クリップボードの画像を貼り付けると背景にする（スクリーンショットの確認用）
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const file = Array.from(e.clipboardData?.files ?? []).find(isImageFile);
+      if (!file) return;
+      e.preventDefault();
+      importBackgroundImage(file);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, []);
+
   // Local Font Access APIのサポート確認
   useEffect(() => {
     if ('queryLocalFonts' in window) {
@@ -214,11 +461,24 @@ const handleMouseUp = () => {
       return;
     }
 
-    const updatedPresets = presets.filter((_, index) => index !== indexToDelete);
-    setPresets(updatedPresets);
-    
-    // 保存も更新
-    localStorage.setItem('text-decorator-presets', JSON.stringify(updatedPresets));
+    updatePresets(presets.filter((_, index) => index !== indexToDelete));
+  };
+
+  // プリセット集の書き出し・読み込み（チームで共有する用）
+  const exportPresets = () => {
+    downloadBlob(new Blob([serializePresetPack(presets)], { type: 'application/json' }),
+      `text-decorator-presets-${Date.now()}${PRESET_EXTENSION}`);
+  };
+
+  const importPresets = async (file: File) => {
+    try {
+      const imported = parsePresetPack(await file.text());
+      updatePresets(mergePresets(presets, imported));
+      alert(`${imported.length} 件のプリセットを読み込みました。`);
+    } catch (error) {
+      console.error('プリセット読み込みエラー:', error);
+      alert(`プリセットを読み込めませんでした。\n${error instanceof Error ? error.message : String(error)}`);
+    }
   };
 
   // ローカルフォントの取得
@@ -228,26 +488,10 @@ const handleMouseUp = () => {
     // setIsLoadingFonts(true);
     try {
       const availableFonts = await window.queryLocalFonts!();
-      
-      // 重複を除去してソート
-      const uniqueFonts = Array.from(
-        new Map(
-          availableFonts.map((font: any) => [font.family, {
-            family: font.family,
-            fullName: font.fullName,
-            postscriptName: font.postscriptName,
-            style: font.style
-          }])
-        ).values()
-      ).sort((a: any, b: any) => a.family.localeCompare(b.family));
-
-      setLocalFonts(uniqueFonts as LocalFont[]);
+
+      // ファミリーごとにまとめてソート（Bold・Black などは太さ違いとして残す）
+      setLocalFonts(groupLocalFonts(availableFonts));
       // setFontSource('local');
-      setLocalFonts(uniqueFonts as LocalFont[]);
-      // 最初のローカルフォントを選択
-      //if (uniqueFonts.length > 0) {
-      //  setFontFamily((uniqueFonts[0] as LocalFont).family);
-      //}
     } catch (error: any) {
       console.error('フォントアクセスエラー:', error);
       
@@ -282,16 +526,21 @@ const handleMouseUp = () => {
   };
   */
 
-  const containerRef = useRef(null); // 親要素の参照を追加
+  const containerRef = useRef<HTMLDivElement | null>(null); // 親要素の参照を追加
 
   // サイズを自動調整するuseEffect
   useEffect(() => {
     const updateSize = () => {
       if (containerRef.current && canvasRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
-        // キャンバスの描画解像度を親要素に合わせる（WPFのStretchに近い動作）
-        canvasRef.current.width = clientWidth - 40; // padding分を引く
-        canvasRef.current.height = clientHeight - 40;
+        const box = { width: clientWidth - 40, height: clientHeight - 40 }; // padding分を引く
+        // 出力サイズの縦横比を保ったまま親要素に収める（WPFのUniformに近い動作）
+        const fitted = fitSize(exportSettings.width, exportSettings.height, box.width, box.height);
+        // 拡大中は枠からはみ出す分をスクロールで見せる
+        const viewport = layoutViewport(fitted, box, view);
+        viewportRef.current = { fitted, box, viewport };
+        canvasRef.current.width = viewport.canvasWidth;
+        canvasRef.current.height = viewport.canvasHeight;
         drawText(); // サイズが変わったら再描画
       }
     };
@@ -299,318 +548,361 @@ const handleMouseUp = () => {
     window.addEventListener('resize', updateSize);
     updateSize(); // 初回実行
     return () => window.removeEventListener('resize', updateSize);
-  }, [text, fontSize, lineHeight, fontFamily, textColor, textColorType, textGradientStart,
-    textGradientEnd, textGradientAngle, border1Color, border1Width,
-    border2Color, border2Width, shadowEnabled, shadowOffsetX,
-    shadowOffsetY, shadowBlur, shadowOpacity]); // 依存配列にdrawTextで使う変数を追加
+  }, [layers, selectedLayerId, exportSettings, background, backgroundImage, customFonts, view]); // 依存配列にdrawTextで使う変数を追加
 
   useEffect(() => {
     drawText();
-  }, [text, fontSize, lineHeight, fontFamily, textColor, textColorType, textGradientStart,
-    textGradientEnd, textGradientAngle, border1Color, border1Width,
-    border2Color, border2Width, shadowEnabled, shadowOffsetX,
-    shadowOffsetY, shadowBlur, shadowOpacity]);
+  }, [layers, selectedLayerId, background, backgroundImage, customFonts, guides, animation, previewTime]);
 
-  // drawText 関数の修正案
-const drawText = async (targetCanvas = canvasRef.current) => {
+  const drawText = async (targetCanvas = canvasRef.current) => {
     const canvas = targetCanvas;
     if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    await ensureFontsLoaded(layers.map(layer => layer.style));
+    const viewport = viewportRef.current?.viewport;
+    if (!viewport) return;
+
+    const options = previewOptions(viewport);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // 拡大・スクロール分は平行移動だけで表す（影のぼかしなどは倍率 options.scale で描く）
+    ctx.setTransform(1, 0, 0, 1, viewport.originX, viewport.originY);
+    // 書き出しに含めない背景も、見本としてプレビューには描く
+    renderBackground(ctx, background, backgroundImage, options);
+    renderLayers(ctx, previewTime === null ? layers : animateLayers(layers, animation, previewTime), options);
+
+    // 吸着した線（ドラッグ中のみ）
+    const scale = options.scale ?? 1;
+    if (guides.x.length > 0 || guides.y.length > 0) {
+      ctx.save();
+      ctx.strokeStyle = '#EC4899';
+      ctx.lineWidth = 1;
+      guides.x.forEach((x) => {
+        ctx.beginPath();
+        ctx.moveTo(Math.round(x * scale) + 0.5, 0);
+        ctx.lineTo(Math.round(x * scale) + 0.5, options.height);
+        ctx.stroke();
+      });
+      guides.y.forEach((y) => {
+        ctx.beginPath();
+        ctx.moveTo(0, Math.round(y * scale) + 0.5);
+        ctx.lineTo(options.width, Math.round(y * scale) + 0.5);
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
 
+    // 選択中レイヤーの枠と四隅の印（プレビューのみ、書き出しには含めない）
+    if (selectedLayer && selectedLayer.visible) {
+      const b = measureTextBounds(ctx, selectedLayer, options);
+      ctx.save();
+      ctx.strokeStyle = '#3B82F6';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(b.x, b.y, b.width, b.height);
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#FFFFFF';
+      [[b.x, b.y], [b.x + b.width, b.y], [b.x, b.y + b.height], [b.x + b.width, b.y + b.height]].forEach(([x, y]) => {
+        ctx.fillRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        ctx.strokeRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+      });
+
+      // 自動フィットの枠（レイヤーの中心に置く）
+      const { autoFit } = selectedLayer.style;
+      if (autoFit.mode !== 'off') {
+        const cx = options.width / 2 + selectedLayer.offsetX * scale;
+        const cy = options.height / 2 + selectedLayer.offsetY * scale;
+        ctx.strokeStyle = '#F59E0B';
+        ctx.setLineDash([2, 6]);
+        ctx.strokeRect(cx - (autoFit.maxWidth * scale) / 2, cy - (autoFit.maxHeight * scale) / 2,
+          autoFit.maxWidth * scale, autoFit.maxHeight * scale);
+      }
+      ctx.restore();
+    }
+  };
+  
+  // 書き出すファイル名（拡張子なし）。テキストと適用したプリセットから作る
+  const filename = exportFilename(exportSettings, layers, selectedLayerId);
+
+  const downloadImage = async () => {
     try {
-      await document.fonts.load(`${fontSize}px ${fontFamily}`);
+      await ensureFontsLoaded(layers.map(layer => layer.style));
+
+      // プレビューと同じレイヤーを、出力サイズ × 倍率で描画する（設定に応じて余白を切り落とす）
+      const format = IMAGE_FORMATS[exportSettings.format];
+      const blob = await renderExportImage(layers, exportSettings, exportBackground);
+      if (blob.type === format.mimeType) {
+        downloadBlob(blob, `${filename}${format.extension}`);
+      } else {
+        // 対応していない形式は toBlob が PNG で返してくる
+        downloadBlob(blob, `${filename}${IMAGE_FORMATS.png.extension}`);
+        setNotice({ kind: 'error', message: `このブラウザは ${format.label} の書き出しに対応していないため、PNG で保存しました。` });
+      }
     } catch (error) {
-      console.warn('Font loading warning:', error);
+      console.error('画像書き出しエラー:', error);
+      alert(`画像の書き出しに失敗しました。\n${error instanceof Error ? error.message : String(error)}`);
     }
+  };
 
-    const lines = text.split('\n');
-    const _lineHeight = fontSize * lineHeight;
-    const lineHeightPx = fontSize * lineHeight;
-    
-    // 全行の高さ
-    const totalHeight = lines.length * lineHeightPx;
+  // クリップボードに入れられる画像は PNG だけなので、形式の設定によらず PNG（透明のまま）にする
+  const copyImage = async () => {
+    try {
+      // Safari はクリック直後に write を呼ばないと拒否するので、フォントの読み込みも含めて Blob の Promise のまま渡す
+      // （write より前に await するとユーザー操作の扱いが切れる）
+      const blob = ensureFontsLoaded(layers.map(layer => layer.style))
+        .then(() => renderExportImage(layers, { ...exportSettings, format: 'png' }, exportBackground));
+      await navigator.clipboard.write([new ClipboardItem({ [IMAGE_FORMATS.png.mimeType]: blob })]);
+      setNotice({ kind: 'info', message: '画像をクリップボードにコピーしました' });
+    } catch (error) {
+      console.error('クリップボードへのコピーエラー:', error);
+      setNotice({ kind: 'error', message: '画像をクリップボードにコピーできませんでした。ブラウザの権限設定を確認してください。' });
+    }
+  };
 
-    ctx.font = `${fontSize}px ${fontFamily}`;
-    ctx.textAlign = 'center';
-    
-    // 【修正ポイント1】基準を「中央」から「中央のベースライン」に変更
-    // これにより、1行目が常にキャンバスの真ん中に座るようになります
-    ctx.textBaseline = 'middle'; 
-    ctx.lineJoin = 'round';
-    ctx.miterLimit = 2;
-
-    const x = canvas.width / 2;
-
-    const { x: offsetX, y: offsetY } = textPosRef.current;
-
-    // textPos.x/y をそのまま「中心からのズレ」として使います
-    // const centerX = (canvas.width / 2) + textPos.x;
-    // 1行目のベースライン位置を計算
-    // テキスト全体の中央位置を固定
-    // const startY = (canvas.height / 2) - (totalHeight / 2) + (lineHeightPx / 2) + textPos.y;
-
-    // 中央からのズレとして使用
-    const startY = (canvas.height / 2) - (totalHeight / 2) + (lineHeightPx / 2) + offsetY;
-    const centerX = (canvas.width / 2) + offsetX;
-
-    lines.forEach((line, index) => {
-      // index=0（1行目）のときは currentY = startY となり動きません
-      // index=1以降、行間（_lineHeight）が加算されて下に配置されます
-      const currentY = startY + (index * _lineHeight);
-
-      // 1. 影
-      if (shadowEnabled) {
-        ctx.shadowColor = `rgba(0, 0, 0, ${shadowOpacity})`;
-        ctx.shadowBlur = shadowBlur;
-        ctx.shadowOffsetX = shadowOffsetX;
-        ctx.shadowOffsetY = shadowOffsetY;
-        ctx.fillStyle = 'black';
-        ctx.fillText(line, centerX, currentY);
-
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
-      }
+  const downloadSvg = async () => {
+    try {
+      const blob = await renderExportSvg(layers, exportSettings, exportBackground?.background, customFonts);
+      downloadBlob(blob, `${filename}.svg`);
+    } catch (error) {
+      console.error('SVG書き出しエラー:', error);
+      alert('SVGの書き出しに失敗しました。');
+    }
+  };
 
-      // 2. 外側の縁（border2）
-      if (border2Width > 0) {
-        ctx.strokeStyle = border2Color;
-        ctx.lineWidth = border2Width * 2;
-        ctx.strokeText(line, centerX, currentY);
-      }
+  // 一覧からまとめて書き出すダイアログ
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
 
-      // 3. 内側の縁（border1）
-      if (border1Width > 0) {
-        ctx.strokeStyle = border1Color;
-        ctx.lineWidth = border1Width * 2;
-        ctx.strokeText(line, centerX, currentY);
-      }
+  // プロジェクト（全レイヤー + 書き出し設定）の保存と読み込み
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
+  const [isDroppingFile, setIsDroppingFile] = useState(false);
 
-      // 4. テキスト本体
-      if (textColorType === 'gradient') {
-        const metrics = ctx.measureText(line);
-        const textWidth = metrics.width;
-        const textHeight = fontSize;
-
-        const angleRad = (textGradientAngle * Math.PI) / 180;
-        const x1 = x - (textWidth / 2) * Math.cos(angleRad);
-        const y1 = currentY - (textHeight / 2) * Math.sin(angleRad);
-        const x2 = x + (textWidth / 2) * Math.cos(angleRad);
-        const y2 = currentY + (textHeight / 2) * Math.sin(angleRad);
-
-        const gradient = ctx.createLinearGradient(x1, y1, x2, y2);
-        gradient.addColorStop(0, textGradientStart);
-        gradient.addColorStop(1, textGradientEnd);
-        ctx.fillStyle = gradient;
-      } else {
-        ctx.fillStyle = textColor;
-      }
-      ctx.fillText(line, centerX, currentY);
+  const saveProject = () => {
+    const json = serializeProject({ layers, exportSettings, background, animation });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `text-decorator-${Date.now()}${PROJECT_EXTENSION}`);
+  };
+
+  // 画面上部のお知らせ（共有リンクの読み込み結果など）
+  const [notice, setNotice] = useState<{ kind: 'info' | 'error'; message: string } | null>(null);
+
+  // 今のデザインを URL の # に入れてコピーする（背景画像は含めない）
+  const copyShareLink = async () => {
+    try {
+      const hash = await encodeShareHash({ layers, exportSettings, background, animation });
+      const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+      window.history.replaceState(null, '', hash);
+      await navigator.clipboard.writeText(url);
+      setNotice({
+        kind: 'info',
+        message: background.image ? 'リンクをコピーしました（背景画像は含まれません）' : 'リンクをコピーしました',
+      });
+    } catch (error) {
+      console.error('共有リンクの作成エラー:', error);
+      setNotice({ kind: 'error', message: 'リンクをコピーできませんでした。' });
+    }
+  };
+
+  // この環境にないフォントを使っていれば、代わりのフォントで表示していることを知らせる
+  const warnMissingFonts = (fontFamilies: string[], subject: string) => {
+    const missing = [...new Set(fontFamilies.filter(family => !isFontAvailable(family)).map(fontLabel))];
+    if (missing.length === 0) return false;
+    setNotice({
+      kind: 'error',
+      message: `${subject}のフォント ${missing.map(name => `「${name}」`).join('')} がこの環境にないため、代わりのフォントで表示しています。\n`
+        + 'Typography の Upload Font でフォントファイルを読み込むと、元の見た目で表示されます。',
     });
+    return true;
   };
-  
-  const downloadImage =  async() => {
-    await document.fonts.load(`${fontSize}px ${fontFamily}`);
-    const downloadCanvas = downloadCanvasRef.current;
-    if (!downloadCanvas) return;
 
-    const ctx = downloadCanvas.getContext('2d');
-    if (!ctx) return;
+  const applyProject = (project: ProjectDocument, label: string, replaceHistory = false) => {
+    if (replaceHistory) reset(project.layers, label);
+    else commit(label, () => project.layers);
+    setExportSettings(project.exportSettings);
+    setBackground(project.background);
+    setAnimation(project.animation);
+    setPreviewTime(null);
+    setSelectedLayerId(project.layers[project.layers.length - 1]?.id ?? null);
+    return warnMissingFonts(project.layers.map(layer => layer.style.fontFamily), 'デザイン');
+  };
 
-    if (!canvasRef.current) return;
-
-    // 1. キャンバスの初期化
-    ctx.clearRect(0, 0, downloadCanvas.width, downloadCanvas.height);
-
-    // 2. スケール（プレビュー用キャンバスとダウンロード用キャンバスの比率）の計算
-    const scale = downloadCanvas.width / canvasRef.current.width;
-    const scaledFontSize = fontSize * scale;
-    const lines = text.split('\n');
-    const scaledLineHeight = scaledFontSize * lineHeight; // 行間
-
-    // 3. 基本設定の適用
-    ctx.font = `${scaledFontSize}px ${fontFamily}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.lineJoin = 'round';
-    ctx.miterLimit = 2;
-
-    const x = downloadCanvas.width / 2;
-    // 全行の合計高さを計算し、垂直方向の中央位置を割り出す
-    const totalHeight = lines.length * scaledLineHeight;
-    let startY = (downloadCanvas.height / 2) - (totalHeight / 2) + (lineHeight / 2);
-
-    // 4. 各行をループして描画
-    lines.forEach((line, index) => {
-      const currentY = startY + (index * scaledLineHeight);
-
-      // --- 影の描画 ---
-      if (shadowEnabled) {
-        ctx.shadowColor = `rgba(0, 0, 0, ${shadowOpacity})`;
-        ctx.shadowBlur = shadowBlur * scale;
-        ctx.shadowOffsetX = shadowOffsetX * scale;
-        ctx.shadowOffsetY = shadowOffsetY * scale;
-        ctx.fillStyle = 'black';
-        ctx.fillText(line, x, currentY);
-
-        // 影設定をリセット（縁取りに影響させないため）
-        ctx.shadowColor = 'transparent';
-        ctx.shadowBlur = 0;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 0;
+  // 起動時（とリンクを貼り直したとき）に # の共有データから復元する
+  // 壊れている・読めない版のリンクは初期状態のまま開き、理由を表示する
+  const restoreFromLink = async () => {
+    try {
+      const project = await decodeShareHash(window.location.hash);
+      if (!project) return;
+      if (!applyProject(project, '共有リンクから復元', true)) {
+        setNotice({ kind: 'info', message: '共有リンクのデザインを読み込みました' });
       }
+    } catch (error) {
+      console.error('共有リンクの読み込みエラー:', error);
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setNotice({
+        kind: 'error',
+        message: `共有リンクを読み込めませんでした。初期状態で開いています。\n${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  };
 
-      // --- 外側の縁（border2） ---
-      if (border2Width > 0) {
-        ctx.strokeStyle = border2Color;
-        ctx.lineWidth = border2Width * 2 * scale;
-        ctx.strokeText(line, x, currentY);
-      }
+  const restoreFromLinkRef = useRef(restoreFromLink);
+  restoreFromLinkRef.current = restoreFromLink;
+  useEffect(() => {
+    const onHashChange = () => restoreFromLinkRef.current();
+    onHashChange();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
 
-      // --- 内側の縁（border1） ---
-      if (border1Width > 0) {
-        ctx.strokeStyle = border1Color;
-        ctx.lineWidth = border1Width * 2 * scale;
-        ctx.strokeText(line, x, currentY);
-      }
+  // お知らせは少し経ったら消す（エラーは閉じるまで残す）
+  useEffect(() => {
+    if (notice?.kind !== 'info') return;
+    const timer = window.setTimeout(() => setNotice(null), 4000);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
 
-      // --- テキスト本体（グラデーション/塗りつぶし） ---
-      if (textColorType === 'gradient') {
-        const metrics = ctx.measureText(line);
-        const textWidth = metrics.width;
-        const textHeight = scaledFontSize;
-
-        const angleRad = (textGradientAngle * Math.PI) / 180;
-        const x1 = x - (textWidth / 2) * Math.cos(angleRad);
-        const y1 = currentY - (textHeight / 2) * Math.sin(angleRad);
-        const x2 = x + (textWidth / 2) * Math.cos(angleRad);
-        const y2 = currentY + (textHeight / 2) * Math.sin(angleRad);
-
-        const gradient = ctx.createLinearGradient(x1, y1, x2, y2);
-        gradient.addColorStop(0, textGradientStart);
-        gradient.addColorStop(1, textGradientEnd);
-        ctx.fillStyle = gradient;
-      } else {
-        ctx.fillStyle = textColor;
-      }
-      ctx.fillText(line, x, currentY);
-    });
+  const openProjectFile = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      applyProject(project, `プロジェクト「${file.name}」を開く`);
+    } catch (error) {
+      console.error('プロジェクト読み込みエラー:', error);
+      alert(`プロジェクトを開けませんでした。\n${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
 
-    // 5. 画像として書き出し
-    downloadCanvas.toBlob((blob) => {
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `decorated-text-${Date.now()}.png`;
-      a.click();
-      URL.revokeObjectURL(url);
-    }, 'image/png');
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDroppingFile(false);
+    const files = Array.from(e.dataTransfer.files);
+    const project = files.find(f => f.name.toLowerCase().endsWith(PROJECT_EXTENSION));
+    const image = files.find(isImageFile);
+    if (project) openProjectFile(project);
+    else if (image) importBackgroundImage(image);
   };
 
   const savePreset = () => {
     const presetName = prompt("プリセットの名前を入力してください", `Preset ${presets.length + 1}`);
     if (!presetName) return;
 
-    const newPreset = {
-      name: presetName,
-      config: {
-        fontFamily,
-        fontSize,
-        lineHeight,
-        textColor,
-        textColorType,
-        textGradientStart,
-        textGradientEnd,
-        textGradientAngle,
-        border1Color,
-        border1Width,
-        border2Color,
-        border2Width
-        // ...その他保存したいパラメータ
-      }
-    };
+    // 行ごとの倍率以外のスタイルをすべて保存する（同じ名前があれば番号を付ける）
+    updatePresets(mergePresets(presets, [presetFromStyle(presetName.trim() || `Preset ${presets.length + 1}`,
+      selectedLayer?.style ?? DEFAULT_TEXT_STYLE)]));
+  };
 
-    const updatedPresets = [...presets, newPreset];
-    setPresets(updatedPresets);
+  // プリセットは選択中のレイヤーにだけ適用する
+  const loadPreset = (preset: Preset) => {
+    if (!selectedLayer) return;
+    updateLayer(selectedLayer.id, { style: applyPresetConfig(selectedLayer.style, preset.config), presetName: preset.name },
+      `プリセット「${preset.name}」を適用`);
+    if (preset.config.fontFamily) warnMissingFonts([preset.config.fontFamily], `プリセット「${preset.name}」`);
+  };
 
-    // localStorageに保存 (JSON形式の文字列にする)
-    localStorage.setItem('text-decorator-presets', JSON.stringify(updatedPresets));
+  // フォントファイルの読み込み（複数可）。読めなかったファイルはまとめて知らせる
+  const uploadFonts = async (files: File[]) => {
+    const added: CustomFont[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await addFont(file));
+      } catch (error) {
+        console.error('フォント読み込みエラー:', error);
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    // 1 つだけ読み込んだときは、そのまま選択中のレイヤーに使う
+    if (added.length === 1 && errors.length === 0) updateStyle({ fontFamily: customFontItem(added[0]).family });
+    if (errors.length > 0) {
+      setNotice({ kind: 'error', message: `フォントを読み込めませんでした。\n${errors.join('\n')}` });
+    } else if (added.length > 0) {
+      setNotice({ kind: 'info', message: `${added.map(font => `「${font.name}」`).join('')}を読み込みました` });
+    }
   };
 
-  const loadPreset = (preset: Preset) => {
-    const c = preset.config;
-    if (c.textColor !== undefined) setTextColor(c.textColor);
-    if (c.textColorType !== undefined) setTextColorType(c.textColorType);
-    if (c.textGradientStart !== undefined) setTextGradientStart(c.textGradientStart);
-    if (c.textGradientEnd !== undefined) setTextGradientEnd(c.textGradientEnd);
-    if (c.textGradientAngle !== undefined) setTextGradientAngle(c.textGradientAngle);
-    if (c.border1Color !== undefined) setBorder1Color(c.border1Color);
-    if (c.border1Width !== undefined) setBorder1Width(c.border1Width);
-    if (c.border2Color !== undefined) setBorder2Color(c.border2Color);
-    if (c.border2Width !== undefined) setBorder2Width(c.border2Width);
-    if (c.shadowEnabled !== undefined) setShadowEnabled(c.shadowEnabled);
-    if (c.shadowOffsetX !== undefined) setShadowOffsetX(c.shadowOffsetX);
-    if (c.shadowOffsetY !== undefined) setShadowOffsetY(c.shadowOffsetY);
-    if (c.shadowBlur !== undefined) setShadowBlur(c.shadowBlur);
-    if (c.shadowOpacity !== undefined) setShadowOpacity(c.shadowOpacity);
+  const deleteFont = async (font: CustomFont) => {
+    const family = customFontItem(font).family;
+    const usedBy = layers.filter(layer => layer.style.fontFamily === family).length;
+    const message = usedBy > 0
+      ? `フォント「${font.name}」は ${usedBy} 個のレイヤーで使われています。削除すると代わりのフォントで表示されます。削除してもよろしいですか？`
+      : `フォント「${font.name}」を削除してもよろしいですか？`;
+    if (!window.confirm(message)) return;
+    try {
+      await removeFont(font.id);
+    } catch (error) {
+      console.error('フォント削除エラー:', error);
+      setNotice({ kind: 'error', message: 'フォントを削除できませんでした。' });
+    }
   };
 
+  // フォントブラウザの一覧（同梱 → 読み込んだフォント → システムフォント）
+  const fontCatalog = useMemo(() => buildFontCatalog(customFonts, localFonts), [customFonts, localFonts]);
+  // 文字が足りないときの切り替え先は、見本を読み込んである同梱・読み込んだフォントから探す
+  const fontOptions = useMemo(() => [...presetFonts, ...customFonts.map(customFontItem)], [customFonts]);
+  // 読み込んだフォントが登録されると customFonts が変わって描き直されるので、毎回調べ直す
+  const isCurrentFontMissing = !isFontAvailable(fontFamily);
+
+  // 選択中のフォントにない文字（ブラウザが別のフォントで描いてしまう文字）と、それを持っているフォント
+  const glyphCoverage = useGlyphCoverage(fontFamily, text, fontOptions);
+  const missingGlyphText = glyphCoverage.missing.join(' ');
+
 //  const currentFonts = fontSource === 'preset' ? presetFonts : localFonts;
 
   return (
   /* w-screen h-screen で画面全体を強制的に占有し、flex で横並びにします */
-  <div className="flex flex-row w-screen h-screen bg-slate-900 text-white overflow-hidden">
+  <div className="relative flex flex-row w-screen h-screen bg-slate-900 text-white overflow-hidden"
+    onDragOver={(e) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDroppingFile(true);
+    }}
+    onDragLeave={(e) => {
+      if (e.currentTarget === e.target) setIsDroppingFile(false);
+    }}
+    onDrop={handleFileDrop}
+  >
+    {isBatchOpen && (
+      <BatchDialog
+        layers={layers}
+        targetLayerId={selectedLayerId}
+        presets={presets}
+        settings={exportSettings}
+        background={exportBackground}
+        onClose={() => setIsBatchOpen(false)}
+      />
+    )}
+
+    {isDroppingFile && (
+      <div className="pointer-events-none absolute inset-0 z-50 flex items-center justify-center border-4 border-dashed border-blue-500 bg-slate-900/80 text-lg font-bold text-blue-300">
+        プロジェクトファイル（{PROJECT_EXTENSION}）を開く / 画像を背景にする
+      </div>
+    )}
     
 {/* 左カラム：Preset Panel */}
 <aside className="w-64 flex-shrink-0 border-r border-slate-700 bg-slate-800 p-4 flex flex-col overflow-hidden">
-  <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
-    <Sun size={20} className="text-yellow-400" /> Presets
-  </h2>
-
-  {/* スクロール可能なエリア */}
-<div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
-  {presets.map((preset, index) => (
-    /* 外側を button から div に変更 */
-    <div
-      key={index}
-      className="group relative w-full overflow-hidden rounded-lg border border-slate-700 bg-slate-900 transition-all hover:border-blue-500 hover:ring-1 hover:ring-blue-500 cursor-pointer"
-      onClick={() => loadPreset(preset)}
-    >
-      <div className="p-3"> {/* 余白用の中敷き */}
-        {/* プリセット名 */}
-        <span className="text-sm font-medium text-slate-200 block mb-2">{preset.name}</span>
-        
-        {/* 小さなプレビュー表示 */}
-        <div 
-          className="w-full h-1.5 rounded-full" 
-          style={{ 
-            background: preset.config.textColorType === 'gradient' 
-              ? `linear-gradient(90deg, ${preset.config.textGradientStart}, ${preset.config.textGradientEnd})`
-              : (preset.config.textColor || '#FFFFFF') /* null対策 */
-          }}
-        />
-      </div>
-
-      {/* ゴミ箱ボタン：divの中であればOK */}
-      <button
-        onClick={(e) => {
-          e.stopPropagation(); 
-          deletePreset(index);
-        }}
-        className="absolute top-2 right-2 p-1.5 text-slate-500 hover:text-red-500 hover:bg-red-500/10 rounded-md transition-all opacity-0 group-hover:opacity-100"
-        title="削除"
-      >
-        <Trash2 size={14} />
-      </button>
-    </div>
-  ))}
-</div>
+  <PresetLibrary
+    presets={presets}
+    currentText={selectedLayer?.text ?? ''}
+    onChange={updatePresets}
+    onApply={loadPreset}
+    onDelete={deletePreset}
+    onImport={importPresets}
+    onExport={exportPresets}
+  />
+
+  {/* レイヤー一覧 */}
+  <LayerPanel
+    layers={layers}
+    selectedLayerId={selectedLayerId}
+    onSelect={setSelectedLayerId}
+    onAdd={addLayer}
+    onUpdate={(id, patch) => updateLayer(id, patch, 'visible' in patch ? '表示を切り替え' : 'ロックを切り替え')}
+    onMove={moveLayer}
+    onDuplicate={duplicateLayerById}
+    onDelete={deleteLayer}
+  />
+
+  <HistoryPanel entries={history.entries} index={history.index} onJump={history.jump} />
 
   {/* 下部に現在の設定を保存するボタン（右側にもありますが、ここにあると便利） */}
   {/*
@@ -624,23 +916,81 @@ const drawText = async (targetCanvas = canvasRef.current) => {
 </aside>
     {/* 中央カラム：Main Editor (flex-1 = 残りの幅をすべて使う) */}
     <main className="flex-1 min-w-0 flex flex-col p-6 bg-slate-900">
+      {notice && (
+        <div className={`mb-4 flex items-start gap-2 rounded-md border px-3 py-2 text-xs ${
+          notice.kind === 'error' ? 'border-amber-500/50 bg-amber-500/10 text-amber-300' : 'border-blue-500/50 bg-blue-500/10 text-blue-300'
+        }`}>
+          {notice.kind === 'error' ? <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> : <Info size={14} className="mt-0.5 flex-shrink-0" />}
+          <p className="flex-1 whitespace-pre-line">{notice.message}</p>
+          <button onClick={() => setNotice(null)} title="閉じる" className="text-slate-400 hover:text-white">
+            <X size={14} />
+          </button>
+        </div>
+      )}
       <div className="mb-4">
-        <label className="block text-sm text-slate-400 mb-1">Text Input</label>
-        <textarea 
-          className="w-full h-32 bg-slate-800 border border-slate-700 rounded p-3 text-white"
+        <div className="flex justify-between items-end mb-1">
+          <label className="block text-sm text-slate-400">Text Input</label>
+          <div className="flex items-center gap-1">
+            <button onClick={() => projectInputRef.current?.click()} title="プロジェクトを開く"
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors">
+              <FolderOpen size={16} />
+            </button>
+            <button onClick={saveProject} title="プロジェクトを保存"
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors">
+              <FileDown size={16} />
+            </button>
+            <button onClick={copyShareLink} title="このデザインのリンクをコピー"
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors">
+              <Link2 size={16} />
+            </button>
+            <input ref={projectInputRef} type="file" accept={`${PROJECT_EXTENSION},application/json`} className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) openProjectFile(file);
+                e.target.value = '';
+              }} />
+            <span className="w-px h-4 bg-slate-700 mx-1" />
+            <button onClick={undo} disabled={!history.canUndo} title="元に戻す (Ctrl+Z)"
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent">
+              <Undo2 size={16} />
+            </button>
+            <button onClick={redo} disabled={!history.canRedo} title="やり直す (Ctrl+Shift+Z)"
+              className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent">
+              <Redo2 size={16} />
+            </button>
+          </div>
+        </div>
+        <HighlightedTextarea
           value={text}
-          onChange={(e) => setText(e.target.value)}
+          disabled={!selectedLayer}
+          placeholder={selectedLayer ? '' : 'レイヤーを選択してください'}
+          highlight={glyphCoverage.missing}
+          highlightTitle={`色の付いた文字（${missingGlyphText}）は「${fontLabel(fontFamily)}」にないため、別のフォントで描かれます`}
+          onChange={(value) => selectedLayer && updateLayer(selectedLayer.id, { text: value },
+            'テキストを編集', `text:${selectedLayer.id}`)}
         />
+        <p className="mt-1 text-[10px] text-slate-500 font-mono">
+          {'{color=#ff0|激辛}'} 色 ・ {'{size=1.5|!!}'} サイズ ・ ｜漢字《かんじ》 ルビ
+        </p>
       </div>
       
       {/* プレビューエリア：flex-1 で余った下のスペースをすべて埋める */}
         <div ref={containerRef} min-w-0="true" min-h-0="true" className="flex-1 flex items-center justify-center bg-black border border-slate-800 rounded-lg relative overflow-hidden">
+          <PreviewToolbar
+            zoom={view.zoom}
+            onZoom={(zoom) => updateView(prev => zoomAround(prev, zoom))}
+            onFit={() => setView(FIT_VIEW)}
+            onResetPosition={selectedLayer && !selectedLayer.locked ? resetLayerPosition : null}
+          />
           <canvas ref={canvasRef} 
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp} // 枠外に出たらドラッグ終了
+            tabIndex={0}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp} // キャプチャ中は枠外に出てもドラッグを続ける
+            onKeyDown={handleCanvasKeyDown}
             style={{             
+            touchAction: 'none',
             /* 格子模様のインライン指定 */
             backgroundColor: '#f8f8f8',
             backgroundImage: `
@@ -649,15 +999,7 @@ const drawText = async (targetCanvas = canvasRef.current) => {
             `,
             backgroundSize: '20px 20px',
             backgroundPosition: '0 0, 10px 10px',maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
-            className={`max-w-full max-h-full shadow-2xl ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`} />
-
-            {/* ダウンロード用（ユーザーには見えない） */}
-            <canvas 
-              ref={downloadCanvasRef} 
-              width={1920} // 保存したい解像度
-              height={1080} 
-              className="hidden" 
-            />
+            className={`max-w-full max-h-full shadow-2xl outline-none focus-visible:ring-2 focus-visible:ring-blue-500 ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`} />
       </div>
     </main>
 
@@ -670,14 +1012,52 @@ const drawText = async (targetCanvas = canvasRef.current) => {
     <h2 className="text-xl font-bold flex items-center gap-2">
       <Palette size={20} className="text-blue-400" /> Style
     </h2>
-    <button 
-      onClick={downloadImage}
-      className="bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors"
-    >
-      <Download size={16} /> Export PNG
-    </button>
+    <div className="flex flex-col gap-2">
+      <button 
+        onClick={downloadImage}
+        className="bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors"
+      >
+        <Download size={16} /> Export {IMAGE_FORMATS[exportSettings.format].label}
+      </button>
+      <button 
+        onClick={copyImage}
+        className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors"
+      >
+        <ClipboardCopy size={16} /> Copy Image
+      </button>
+      <button 
+        onClick={downloadSvg}
+        className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors"
+      >
+        <FileCode size={16} /> Export SVG
+      </button>
+      <button 
+        onClick={() => setIsBatchOpen(true)}
+        className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors"
+      >
+        <FileArchive size={16} /> Batch ZIP
+      </button>
+    </div>
   </div>
 
+  {/* EXPORT SECTION：出力サイズと倍率 */}
+  <ExportSettingsPanel settings={exportSettings} filename={filename} onChange={setExportSettings} />
+
+  {/* BACKGROUND SECTION：見本・書き出し用の背景 */}
+  <BackgroundEditor background={background} onChange={setBackground} onImportImage={importBackgroundImage} />
+
+  {/* ANIMATION SECTION：登場アニメーションと APNG / GIF 書き出し */}
+  <AnimationPanel
+    animation={animation}
+    onChange={setAnimation}
+    layers={layers}
+    settings={exportSettings}
+    background={exportBackground}
+    filename={filename}
+    time={previewTime}
+    onTimeChange={setPreviewTime}
+  />
+
 {/* TYPOGRAPHY SECTION */}
 <section className="space-y-4">
   <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Typography</h3>
@@ -685,7 +1065,17 @@ const drawText = async (targetCanvas = canvasRef.current) => {
   {/* Font Family Label & Action Button */}
   <div className="space-y-2">
     <div className="flex justify-between items-end">
-      <label className="text-xs text-slate-400">Font Family</label>
+      <label className="flex items-center gap-2 text-xs text-slate-400">
+        Font Family
+        {glyphCoverage.missing.length > 0 && (
+          <span
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 text-[10px]"
+            title={`このフォントにない文字: ${missingGlyphText}`}
+          >
+            <AlertTriangle size={10} /> {glyphCoverage.missing.length} 文字が未対応
+          </span>
+        )}
+      </label>
       
       {/* サポート状況に応じた表示の切り替え */}
       {localFontsAvailable ? (
@@ -702,39 +1092,76 @@ const drawText = async (targetCanvas = canvasRef.current) => {
       )}
     </div>
 
-    {/* Select Box */}
-    <select 
-      value={fontFamily}
-      onChange={(e) => setFontFamily(e.target.value)}
-      className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-2 text-sm focus:outline-none focus:border-blue-500 text-white cursor-pointer"
-    >
-      <optgroup label="Standard Fonts" className="bg-slate-800 text-slate-400">
-        {presetFonts.map(f => (
-          <option key={f.family} value={f.family} className="text-white bg-slate-900">
-            {f.label}
-          </option>
-        ))}
-      </optgroup>
-
-      {localFonts.length > 0 && (
-        <optgroup label="System Fonts" className="bg-slate-800 text-slate-400">
-          {localFonts.map(f => (
-            <option key={f.postscriptName} value={f.family} className="text-white bg-slate-900">
-              {f.fullName}
-            </option>
-          ))}
-        </optgroup>
-      )}
-    </select>
+    {/* 検索・見本付きのフォント一覧 */}
+    <FontBrowser
+      catalog={fontCatalog}
+      style={{ fontFamily, fontWeight, fontStyle }}
+      previewText={plainText(text)}
+      onSelect={updateStyle}
+    />
+
+    {isCurrentFontMissing && (
+      <p className="flex items-start gap-1 text-[10px] text-amber-400">
+        <AlertTriangle size={12} className="mt-px flex-shrink-0" />
+        「{fontLabel(fontFamily)}」がこの環境にないため、代わりのフォントで表示しています。フォントファイルを読み込むと元の見た目になります。
+      </p>
+    )}
+
+    {glyphCoverage.missing.length > 0 && (
+      <div className="space-y-1.5 rounded border border-amber-500/40 bg-amber-500/10 p-2 text-[10px] text-amber-300">
+        <p>
+          「{fontLabel(fontFamily)}」にない文字が別のフォントで描かれています：
+          <span className="ml-1 font-sans text-xs text-amber-200">{missingGlyphText}</span>
+        </p>
+        {glyphCoverage.suggestions.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {glyphCoverage.suggestions.map(f => (
+              <button
+                key={f.family}
+                onClick={() => updateStyle({ fontFamily: f.family })}
+                className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-blue-400 rounded border border-slate-600 transition-colors"
+                style={{ fontFamily: f.family }}
+              >
+                {f.label} に切り替え
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-slate-400">すべての文字を持つフォントが一覧にありません。</p>
+        )}
+      </div>
+    )}
+
+    <FontUploadPanel fonts={customFonts} onUpload={uploadFonts} onRemove={deleteFont} />
+  </div>
+  {/* Writing Mode */}
+  <div className="flex items-center justify-between">
+    <span className="text-xs text-slate-400">Direction</span>
+    <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+      {([['horizontal', '横書き'], ['vertical', '縦書き']] as const).map(([mode, label]) => (
+        <button
+          key={mode}
+          onClick={() => updateStyle({ writingMode: mode })}
+          className={`px-3 py-1.5 text-xs rounded-md transition-all duration-200 ${
+            writingMode === mode
+              ? 'bg-blue-600 text-white shadow-md'
+              : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
   </div>
     {/* Size & Spacing */}
   <div className="grid grid-cols-2 gap-4">
     <div className="space-y-1">
       <label className="text-[10px] text-slate-500 uppercase font-bold">Size</label>
       <input 
-        type="number" 
+        type="number" min="1"
         value={fontSize}
-        onChange={(e) => setFontSize(Number(e.target.value))}
+        // 空欄や 0 を保存すると読み込めなくなる（fontSize は 1 以上）ので、ここで 1 に揃える
+        onChange={(e) => updateStyle({ fontSize: Math.max(1, Number(e.target.value) || 1) })}
         className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
       />
     </div>
@@ -744,7 +1171,7 @@ const drawText = async (targetCanvas = canvasRef.current) => {
         <input 
           type="range" min="0.5" max="2.5" step="0.1"
           value={lineHeight}
-          onChange={(e) => setLineHeight(parseFloat(e.target.value))}
+          onChange={(e) => updateStyle({ lineHeight: parseFloat(e.target.value) })}
           className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
         />
         <span className="text-[10px] font-mono text-blue-400 w-6 text-right">
@@ -755,6 +1182,14 @@ const drawText = async (targetCanvas = canvasRef.current) => {
   </div>
   </section>
 
+  {/* SPACING / FIT SECTION：字間・揃え・自動フィット */}
+  <TextLayoutEditor
+    style={{ letterSpacing, textAlign, lineScales, autoFit, writingMode }}
+    lines={plainText(text).split('\n')}
+    canvasSize={exportSettings}
+    onChange={updateStyle}
+  />
+
   {/* FILL SECTION (Main Color) */}
   <section className="space-y-4 border-t border-slate-700 pt-4">
     <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Fill</h3>
@@ -763,7 +1198,7 @@ const drawText = async (targetCanvas = canvasRef.current) => {
       <span className="text-xs text-slate-400">Type</span>
 <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
   <button 
-    onClick={() => setTextColorType('solid')}
+    onClick={() => updateStyle({ textColorType: 'solid' })}
     className={`flex-1 px-3 py-1.5 text-xs rounded-md transition-all duration-200 ${
       textColorType === 'solid' 
         ? 'bg-blue-600 text-white shadow-md' 
@@ -773,7 +1208,7 @@ const drawText = async (targetCanvas = canvasRef.current) => {
     Solid
   </button>
   <button 
-    onClick={() => setTextColorType('gradient')}
+    onClick={() => updateStyle({ textColorType: 'gradient' })}
     className={`flex-1 px-3 py-1.5 text-xs rounded-md transition-all duration-200 ${
       textColorType === 'gradient' 
         ? 'bg-blue-600 text-white shadow-md' 
@@ -786,65 +1221,22 @@ const drawText = async (targetCanvas = canvasRef.current) => {
 
     {textColorType === 'solid' ? (
       <div className="flex items-center gap-3">
-        <input type="color" value={textColor} onChange={(e) => setTextColor(e.target.value)} className="w-8 h-8 rounded border-0 bg-transparent cursor-pointer" />
+        <input type="color" value={textColor} onChange={(e) => updateStyle({ textColor: e.target.value })} className="w-8 h-8 rounded border-0 bg-transparent cursor-pointer" />
         <span className="text-xs font-mono text-slate-300">{textColor.toUpperCase()}</span>
       </div>
     ) : (
-      <div className="space-y-3">
-        <div className="flex items-center gap-2">
-          <input type="color" value={textGradientStart} onChange={(e) => setTextGradientStart(e.target.value)} className="w-8 h-8 rounded bg-transparent" />
-          <span className="text-slate-500">→</span>
-          <input type="color" value={textGradientEnd} onChange={(e) => setTextGradientEnd(e.target.value)} className="w-8 h-8 rounded bg-transparent" />
-        </div>
-        <div className="flex justify-between items-center text-[10px] text-slate-400">
-          <span>Angle</span>
-          <span>{textGradientAngle}</span>
-        </div>
-        <input 
-          type="range" min="0" max="360" value={textGradientAngle} 
-          onChange={(e) => setTextGradientAngle(Number(e.target.value))}
-          className="w-full h-1 bg-slate-700 accent-blue-500" 
-        />
-      </div>
+      <GradientEditor gradient={textGradient} onChange={(gradient) => updateStyle({ textGradient: gradient })} />
     )}
   </section>
 
-  {/* BORDER SECTION */}
-  <section className="space-y-4 border-t border-slate-700 pt-4">
-    <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Borders</h3>
-    
-    {/* Inner Border */}
-    <div className="space-y-2">
-      <div className="flex justify-between items-center text-[10px] text-slate-400">
-        <span>Inner Frame</span>
-        <span>{border1Width}px</span>
-      </div>
-      <div className="flex items-center gap-3">
-        <input type="color" value={border1Color} onChange={(e) => setBorder1Color(e.target.value)} className="w-6 h-6 rounded bg-transparent" />
-        <input 
-          type="range" min="0" max="40" value={border1Width} 
-          onChange={(e) => setBorder1Width(Number(e.target.value))}
-          className="flex-1 h-1 bg-slate-700 accent-blue-500" 
-        />
-      </div>
-    </div>
+  {/* BORDER SECTION：縁取りリスト */}
+  <StrokeStackEditor strokes={strokes} onChange={(next) => updateStyle({ strokes: next })} />
 
-    {/* Outer Border */}
-    <div className="space-y-2">
-      <div className="flex justify-between items-center text-[10px] text-slate-400">
-        <span>Outer Frame</span>
-        <span>{border2Width}px</span>
-      </div>
-      <div className="flex items-center gap-3">
-        <input type="color" value={border2Color} onChange={(e) => setBorder2Color(e.target.value)} className="w-6 h-6 rounded bg-transparent" />
-        <input 
-          type="range" min="0" max="60" value={border2Width} 
-          onChange={(e) => setBorder2Width(Number(e.target.value))}
-          className="flex-1 h-1 bg-slate-700 accent-blue-500" 
-        />
-      </div>
-    </div>
-  </section>
+  {/* SHADOW SECTION：影・光彩リスト */}
+  <ShadowStackEditor shadows={shadows} onChange={(next) => updateStyle({ shadows: next })} />
+
+  {/* TRANSFORM SECTION：回転・傾き・文字ごとの変形 */}
+  <TransformEditor transform={transform} onChange={(next) => updateStyle({ transform: next })} />
 
   {/* 保存ボタン：プリセットへの保存 */}
   <button 
@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from 'react';
+import { Film, Pause, Play, Square, Trash2 } from 'lucide-react';
+import {
+  ANIMATION_FPS, ANIMATION_SCALES, EASINGS, EFFECT_TYPES, MAX_ANIMATION_LENGTH, MAX_ANIMATION_LOOP,
+  createEffect, effectInfo, effectsEnd, frameCount,
+  type AnimationEffect, type AnimationEffectType, type AnimationSettings, type Easing,
+} from '../model/animation';
+import { layerLabel, type TextLayer } from '../model/layers';
+import { ensureFontsLoaded } from '../fonts/loadFonts';
+import { ANIMATION_FORMATS, animationSize, renderAnimation, type AnimationFormat } from '../export/animation';
+import { downloadBlob, type ExportBackground } from '../export/png';
+import type { ExportSettings } from '../export/settings';
+
+type Props = {
+  animation: AnimationSettings;
+  onChange: (animation: AnimationSettings) => void;
+  layers: TextLayer[];
+  settings: ExportSettings;
+  background: ExportBackground | undefined;
+  filename: string;             // 拡張子なし
+  time: number | null;          // プレビューしている時刻（null なら静止画＝すべての効果が終わった状態）
+  onTimeChange: (time: number | null) => void;
+};
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+const selectClass = 'bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:outline-none focus:border-blue-500';
+
+// 秒の入力は 0〜上限に丸め、0.05 秒単位にそろえる
+const clampSeconds = (value: number, min = 0) =>
+  Number.isFinite(value) ? Math.min(MAX_ANIMATION_LENGTH, Math.max(min, Math.round(value * 20) / 20)) : min;
+
+// 入力中の値はそのままにして、確定（blur / Enter）時に丸めて反映する
+function NumberField({ value, step, title, onCommit }: { value: number; step: number; title?: string; onCommit: (value: number) => void }) {
+  return (
+    <input type="number" key={value} defaultValue={value} step={step} title={title}
+      onBlur={(e) => onCommit(Number(e.target.value))}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-blue-500" />
+  );
+}
+
+// 登場アニメーションのタイムライン。効果は上から順に重ねて掛ける
+// 再生・スライダーで動かしている間だけプレビューが途中の状態になる
+export default function AnimationPanel({ animation, onChange, layers, settings, background, filename, time, onTimeChange }: Props) {
+  const { effects, length, fps, loop, scale } = animation;
+  // 再生を始めた時刻（performance.now 基準で、時刻 0 に当たる値）
+  const [playOrigin, setPlayOrigin] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ format: AnimationFormat; done: number; total: number } | null>(null);
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    if (playOrigin === null) return;
+    let frame = requestAnimationFrame(function tick(now) {
+      // 最後まで行ったら頭から繰り返す
+      onTimeChange(((now - playOrigin) / 1000) % length);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playOrigin, length, onTimeChange]);
+
+  const update = (patch: Partial<AnimationSettings>) => onChange({ ...animation, ...patch });
+  const updateEffect = (index: number, patch: Partial<AnimationEffect>) => {
+    update({ effects: effects.map((effect, i) => (i === index ? { ...effect, ...patch } : effect)) });
+  };
+
+  // 種類を変えたら長さ・強さなどはその効果の既定値にする（対象と開始時刻は引き継ぐ）
+  const changeType = (index: number, type: AnimationEffectType) => {
+    const { id, layerId, start } = effects[index];
+    updateEffect(index, { ...createEffect(type, { layerId, start }), id });
+  };
+
+  // 新しい効果は、最後の効果が終わったところから始める
+  const add = (type: AnimationEffectType) => {
+    const effect = createEffect(type, { start: clampSeconds(effectsEnd(effects)) });
+    update({ effects: [...effects, effect], length: Math.max(length, clampSeconds(effect.start + effect.duration + 0.5)) });
+  };
+
+  const stop = () => {
+    setPlayOrigin(null);
+    onTimeChange(null);
+  };
+
+  const togglePlay = () => {
+    if (playOrigin !== null) setPlayOrigin(null);
+    else setPlayOrigin(performance.now() - (time !== null && time < length ? time : 0) * 1000);
+  };
+
+  const exportAnimation = async (format: AnimationFormat) => {
+    if (progress) return;
+    cancelRef.current = false;
+    setProgress({ format, done: 0, total: frameCount(animation) });
+    try {
+      await ensureFontsLoaded(layers.map(layer => layer.style));
+      const blob = await renderAnimation(layers, animation, settings, format, background,
+        (done, total) => setProgress({ format, done, total }), () => cancelRef.current);
+      if (blob) downloadBlob(blob, `${filename}${ANIMATION_FORMATS[format].extension}`);
+    } catch (error) {
+      console.error('アニメーション書き出しエラー:', error);
+      alert(`アニメーションの書き出しに失敗しました。\n${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const size = animationSize(settings, animation);
+  const shownTime = Math.min(time ?? length, length);
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Animation</h3>
+        <select value="" onChange={(e) => e.target.value && add(e.target.value as AnimationEffectType)}
+          className={selectClass} title="効果を追加">
+          <option value="">＋ 効果を追加</option>
+          {EFFECT_TYPES.map(info => <option key={info.type} value={info.type}>{info.label}</option>)}
+        </select>
+      </div>
+
+      {effects.length === 0 && (
+        <p className="text-[10px] text-slate-500">効果なし（追加すると APNG / GIF で書き出せます）</p>
+      )}
+
+      {effects.map((effect, index) => {
+        const info = effectInfo(effect.type);
+        const hasTarget = effect.layerId === null || layers.some(layer => layer.id === effect.layerId);
+        return (
+          <div key={effect.id} className="space-y-2 rounded-md border border-slate-700 bg-slate-900/50 p-2">
+            <div className="flex items-center gap-1">
+              <select value={effect.type} onChange={(e) => changeType(index, e.target.value as AnimationEffectType)}
+                className={`${selectClass} flex-1`}>
+                {EFFECT_TYPES.map(item => <option key={item.type} value={item.type}>{item.label}</option>)}
+              </select>
+              <select value={effect.layerId ?? ''} onChange={(e) => updateEffect(index, { layerId: e.target.value || null })}
+                className={`${selectClass} flex-1 min-w-0`} title="対象のレイヤー">
+                <option value="">すべてのレイヤー</option>
+                {layers.map(layer => <option key={layer.id} value={layer.id}>{layerLabel(layer)}</option>)}
+                {!hasTarget && <option value={effect.layerId!}>（削除したレイヤー）</option>}
+              </select>
+              <button className={`${iconButton} hover:text-red-500`} title="削除"
+                onClick={() => update({ effects: effects.filter((_, i) => i !== index) })}>
+                <Trash2 size={12} />
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <label className="flex items-center gap-1">
+                開始
+                <NumberField value={effect.start} step={0.05} onCommit={(value) => updateEffect(index, { start: clampSeconds(value) })} />
+              </label>
+              <label className="flex items-center gap-1">
+                長さ
+                <NumberField value={effect.duration} step={0.05} onCommit={(value) => updateEffect(index, { duration: clampSeconds(value) })} />
+              </label>
+              <span>秒</span>
+            </div>
+
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-12">Easing</span>
+              <select value={effect.easing} onChange={(e) => updateEffect(index, { easing: e.target.value as Easing })}
+                className={`${selectClass} flex-1`}>
+                {EASINGS.map(item => <option key={item.easing} value={item.easing}>{item.label}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center gap-2 text-[10px] text-slate-400">
+              <span className="w-12 truncate" title={info.strength.label}>{info.strength.label}</span>
+              <input type="range" min={info.strength.min} max={info.strength.max} step={info.strength.step} value={effect.strength}
+                onChange={(e) => updateEffect(index, { strength: Number(e.target.value) })}
+                className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+              <span className="w-12 text-right">{effect.strength}{info.strength.unit}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      {/* タイムライン：スライダーで途中の状態を確認する */}
+      <div className="space-y-1">
+        <div className="flex items-center gap-1">
+          <button onClick={togglePlay} className={iconButton} title={playOrigin !== null ? '一時停止' : '再生'}>
+            {playOrigin !== null ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button onClick={stop} disabled={time === null && playOrigin === null} className={iconButton} title="止めて静止画に戻す">
+            <Square size={12} />
+          </button>
+          <input type="range" min={0} max={length} step={1 / fps} value={shownTime}
+            onChange={(e) => {
+              setPlayOrigin(null);
+              onTimeChange(Number(e.target.value));
+            }}
+            className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+          <span className="w-16 text-right text-[10px] font-mono text-slate-400">
+            {shownTime.toFixed(2)} / {length.toFixed(1)}s
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+        <label className="flex items-center justify-between gap-1">
+          長さ（秒）
+          <NumberField value={length} step={0.1} onCommit={(value) => update({ length: clampSeconds(value, 0.1) })} />
+        </label>
+        <label className="flex items-center justify-between gap-1">
+          再生回数
+          <NumberField value={loop} step={1} title="0 で繰り返し続ける"
+            onCommit={(value) => update({ loop: Math.min(MAX_ANIMATION_LOOP, Math.max(0, Math.round(value) || 0)) })} />
+        </label>
+        <label className="flex items-center justify-between gap-1">
+          FPS
+          <select value={fps} onChange={(e) => update({ fps: Number(e.target.value) })} className={selectClass}>
+            {ANIMATION_FPS.map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-1">
+          縮小
+          <select value={scale} onChange={(e) => update({ scale: Number(e.target.value) })} className={selectClass}>
+            {ANIMATION_SCALES.map(value => <option key={value} value={value}>{value * 100}%</option>)}
+          </select>
+        </label>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        {size.width}×{size.height}・{frameCount(animation)} コマ・{loop === 0 ? '繰り返し' : `${loop} 回再生`}
+        {fps > 50 || 100 % fps !== 0 ? '（GIF は 1/100 秒単位に丸めます）' : ''}
+      </p>
+
+      {progress ? (
+        <div className="flex items-center gap-2 text-[10px] text-slate-300">
+          <div className="flex-1 h-1.5 rounded bg-slate-700 overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+          <span>{ANIMATION_FORMATS[progress.format].label} {progress.done} / {progress.total}</span>
+          <button onClick={() => { cancelRef.current = true; }} className="px-2 py-0.5 rounded border border-slate-600 hover:bg-slate-700">
+            中止
+          </button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          {(Object.keys(ANIMATION_FORMATS) as AnimationFormat[]).map(format => (
+            <button key={format} onClick={() => exportAnimation(format)} disabled={effects.length === 0}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded-md flex items-center justify-center gap-2 text-xs font-bold transition-colors disabled:opacity-40 disabled:hover:bg-slate-700">
+              <Film size={14} /> Export {ANIMATION_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
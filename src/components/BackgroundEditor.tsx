@@ -0,0 +1,145 @@
+import { useRef } from 'react';
+import { ImagePlus, RotateCcw, X } from 'lucide-react';
+import type { Background, BackgroundFit, Rect } from '../render/types';
+import { DEFAULT_BACKGROUND } from '../model/background';
+import GradientEditor from './GradientEditor';
+import Slider from './Slider';
+
+type Props = {
+  background: Background;
+  onChange: (background: Background) => void;
+  onImportImage: (file: File) => void;     // 読み込みはドロップ・貼り付けと同じ処理に任せる
+};
+
+const TYPES: { type: Background['type']; label: string }[] = [
+  { type: 'none', label: 'なし' },
+  { type: 'solid', label: '単色' },
+  { type: 'gradient', label: 'グラデ' },
+  { type: 'image', label: '画像' },
+];
+
+const FITS: { fit: BackgroundFit; label: string }[] = [
+  { fit: 'cover', label: 'Cover' },
+  { fit: 'contain', label: 'Contain' },
+  { fit: 'crop', label: 'Crop' },
+];
+
+const MIN_CROP = 0.05;
+
+const toggleButton = (active: boolean) => `flex-1 px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors';
+
+// 背景（単色・グラデーション・画像）の編集
+// 書き出しに含めない設定にすると、読みやすさを確かめるための見本としてプレビューにだけ出る
+export default function BackgroundEditor({ background, onChange, onImportImage }: Props) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const update = (patch: Partial<Background>) => onChange({ ...background, ...patch });
+
+  // 範囲が画像の外に出ないよう、位置と大きさを互いに制限する
+  const updateCrop = (patch: Partial<Rect>) => {
+    const crop = { ...background.crop, ...patch };
+    crop.width = Math.max(MIN_CROP, Math.min(crop.width, 1 - crop.x));
+    crop.height = Math.max(MIN_CROP, Math.min(crop.height, 1 - crop.y));
+    crop.x = Math.min(crop.x, 1 - crop.width);
+    crop.y = Math.min(crop.y, 1 - crop.height);
+    update({ crop });
+  };
+
+  const { type, image, fit, crop } = background;
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Background</h3>
+        <button onClick={() => onChange({ ...DEFAULT_BACKGROUND, image })} className={iconButton} title="背景をリセット">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="flex bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+        {TYPES.map(t => (
+          <button key={t.type} onClick={() => update({ type: t.type })} className={toggleButton(type === t.type)}>
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {(type === 'solid' || type === 'image') && (
+        <div className="flex items-center gap-3">
+          <input type="color" value={background.color} onChange={(e) => update({ color: e.target.value })}
+            className="w-8 h-8 rounded border-0 bg-transparent cursor-pointer" />
+          <span className="text-xs font-mono text-slate-300">{background.color.toUpperCase()}</span>
+          {type === 'image' && <span className="text-[10px] text-slate-500">余白の色</span>}
+        </div>
+      )}
+
+      {type === 'gradient' && (
+        <GradientEditor gradient={background.gradient} onChange={(gradient) => update({ gradient })} showScope={false} />
+      )}
+
+      {type === 'image' && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 rounded border border-slate-600 px-2 py-1 text-[10px] text-slate-300 hover:bg-slate-700 hover:text-white transition-colors">
+              <ImagePlus size={12} /> 画像を選ぶ
+            </button>
+            <span className="flex-1 truncate text-[10px] text-slate-400" title={image?.name}>
+              {image ? `${image.name}（${image.width}×${image.height}）` : 'ドロップ・貼り付けでも読み込めます'}
+            </span>
+            {image && (
+              <button className={`${iconButton} hover:text-red-500`} title="画像を外す" onClick={() => update({ image: null })}>
+                <X size={12} />
+              </button>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportImage(file);
+                e.target.value = '';
+              }} />
+          </div>
+
+          <div className="flex bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+            {FITS.map(f => (
+              <button key={f.fit} onClick={() => update({ fit: f.fit })} className={toggleButton(fit === f.fit)}>
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          {fit === 'crop' ? (
+            <div className="space-y-2">
+              <Slider label="Left" value={crop.x} min={0} max={1 - MIN_CROP} step={0.01} unit="%" onChange={(x) => updateCrop({ x })} />
+              <Slider label="Top" value={crop.y} min={0} max={1 - MIN_CROP} step={0.01} unit="%" onChange={(y) => updateCrop({ y })} />
+              <Slider label="Width" value={crop.width} min={MIN_CROP} max={1} step={0.01} unit="%" onChange={(width) => updateCrop({ width })} />
+              <Slider label="Height" value={crop.height} min={MIN_CROP} max={1} step={0.01} unit="%" onChange={(height) => updateCrop({ height })} />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Slider label="Pos X" value={background.positionX} min={0} max={1} step={0.01} unit="%"
+                onChange={(positionX) => update({ positionX })} />
+              <Slider label="Pos Y" value={background.positionY} min={0} max={1} step={0.01} unit="%"
+                onChange={(positionY) => update({ positionY })} />
+            </div>
+          )}
+
+          <Slider label="Blur" value={background.blur} min={0} max={40} onChange={(blur) => update({ blur })} />
+          <Slider label="Darken" value={background.darken} min={0} max={0.9} step={0.05} unit="%"
+            onChange={(darken) => update({ darken })} />
+        </div>
+      )}
+
+      {type !== 'none' && (
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={background.includeInExport}
+            onChange={(e) => update({ includeInExport: e.target.checked })} className="accent-blue-500" />
+          書き出しに含める
+          {!background.includeInExport && <span className="text-[10px] text-amber-500/70">（プレビューの見本のみ）</span>}
+        </label>
+      )}
+    </section>
+  );
+}
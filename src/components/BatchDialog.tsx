@@ -0,0 +1,256 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, FileArchive, FileSpreadsheet, X } from 'lucide-react';
+import { renderBackground } from '../render/background';
+import { renderLayers } from '../render/renderDecoratedText';
+import { ensureFontsLoaded } from '../fonts/loadFonts';
+import { canvasToBlob, downloadBlob, renderExportCanvas, type ExportBackground } from '../export/png';
+import { fitSize, type ExportSettings } from '../export/settings';
+import { createZip, type ZipEntry } from '../export/zip';
+import { layerLabel, type TextLayer } from '../model/layers';
+import type { Preset } from '../model/presets';
+import {
+  DEFAULT_FILENAME_TEMPLATE, buildBatch, tableFromCsv, tableFromList, type BatchMapping,
+} from '../model/batch';
+
+type Props = {
+  layers: TextLayer[];
+  targetLayerId: string | null;             // 最初に 1 列目を割り当てるレイヤー
+  presets: Preset[];
+  settings: ExportSettings;
+  background?: ExportBackground;
+  onClose: () => void;
+};
+
+// 一度に並べるプレビューの上限（書き出しは全件）
+const PREVIEW_LIMIT = 60;
+const THUMB_WIDTH = 320;
+
+const field = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-white focus:border-blue-500 focus:outline-none';
+const toggleButton = (active: boolean) => `flex-1 px-3 py-1.5 text-xs rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 1 枚分の縮小プレビュー（書き出しと同じ背景・レイヤーを描く）
+function BatchThumbnail({ layers, settings, background }: { layers: TextLayer[]; settings: ExportSettings; background?: ExportBackground }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const size = fitSize(settings.width, settings.height, THUMB_WIDTH, THUMB_WIDTH);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    let cancelled = false;
+    ensureFontsLoaded(layers.map(layer => layer.style)).then(() => {
+      if (cancelled) return;
+      const options = { width: size.width, height: size.height, scale: size.width / settings.width };
+      ctx.clearRect(0, 0, size.width, size.height);
+      if (background) renderBackground(ctx, background.background, background.image, options);
+      renderLayers(ctx, layers, options);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [layers, settings.width, size.width, size.height, background]);
+
+  return (
+    <canvas ref={canvasRef} width={size.width} height={size.height} className="w-full h-auto rounded"
+      style={{ background: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%) 0 0 / 16px 16px' }} />
+  );
+}
+
+// 一覧（リスト / CSV）から同じスタイルの画像をまとめて作り、ZIP 1 つでダウンロードする
+// ZIP の組み立てまですべてブラウザの中で行う
+export default function BatchDialog({ layers, targetLayerId, presets, settings, background, onClose }: Props) {
+  const [mode, setMode] = useState<'list' | 'csv'>('list');
+  const [source, setSource] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<BatchMapping>(() => {
+    const target = targetLayerId ?? layers[layers.length - 1]?.id;
+    return { textColumns: target ? { [target]: 0 } : {}, presetColumn: null };
+  });
+  const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const csvInputRef = useRef<HTMLInputElement | null>(null);
+
+  // 入力中に毎回全件を組み立て直さないよう、反映は後回しにする
+  const deferredSource = useDeferredValue(source);
+  const table = useMemo(
+    () => (mode === 'list' ? tableFromList(deferredSource) : tableFromCsv(deferredSource, hasHeader)),
+    [mode, deferredSource, hasHeader],
+  );
+
+  // 列が減ったときに範囲外を指している割り当ては外す
+  const validMapping = useMemo((): BatchMapping => ({
+    textColumns: Object.fromEntries(Object.entries(mapping.textColumns)
+      .filter(([id, column]) => column < table.columns.length && layers.some(layer => layer.id === id))),
+    presetColumn: mapping.presetColumn !== null && mapping.presetColumn < table.columns.length ? mapping.presetColumn : null,
+  }), [mapping, table, layers]);
+
+  // 書き出しの進み具合で描き直さないよう、プレビューに渡すレイヤーは入力が変わったときだけ作る
+  const items = useMemo(
+    () => buildBatch(table, layers, validMapping, presets, template),
+    [table, layers, validMapping, presets, template],
+  );
+  const warningCount = items.filter(item => item.warnings.length > 0).length;
+
+  const setTextColumn = (layerId: string, column: number | null) => {
+    const textColumns = { ...mapping.textColumns };
+    if (column === null) delete textColumns[layerId];
+    else textColumns[layerId] = column;
+    setMapping({ ...mapping, textColumns });
+  };
+
+  const importCsv = async (file: File) => {
+    setSource(await file.text());
+    setMode('csv');
+  };
+
+  const downloadZip = async () => {
+    if (items.length === 0 || progress) return;
+    setProgress({ done: 0, total: items.length });
+    try {
+      const entries: ZipEntry[] = [];
+      for (const item of items) {
+        await ensureFontsLoaded(item.layers.map(layer => layer.style));
+        const canvas = renderExportCanvas(item.layers, settings, background);
+        const blob = await canvasToBlob(canvas, 'image/png');
+        entries.push({ name: item.filename, data: new Uint8Array(await blob.arrayBuffer()) });
+        setProgress({ done: entries.length, total: items.length });
+      }
+      downloadBlob(createZip(entries), `text-decorator-batch-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('一括書き出しエラー:', error);
+      alert(`一括書き出しに失敗しました。\n${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const columnOptions = table.columns.map((column, i) => <option key={i} value={i}>{column}</option>);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70" onClick={onClose}>
+      <div className="flex h-[90vh] w-[min(1200px,95vw)] flex-col rounded-lg border border-slate-700 bg-slate-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-700 px-4 py-3">
+          <h2 className="text-lg font-bold flex items-center gap-2">
+            <FileArchive size={18} className="text-orange-400" /> Batch Export
+          </h2>
+          <button onClick={onClose} title="閉じる"
+            className="p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* 入力と割り当て */}
+          <div className="w-80 flex-shrink-0 space-y-4 overflow-y-auto border-r border-slate-700 p-4 custom-scrollbar">
+            <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+              <button onClick={() => setMode('list')} className={toggleButton(mode === 'list')}>リスト</button>
+              <button onClick={() => setMode('csv')} className={toggleButton(mode === 'csv')}>CSV</button>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-end justify-between">
+                <label className="text-[10px] text-slate-500 uppercase font-bold">
+                  {mode === 'list' ? '1 行 1 タイトル' : 'CSV / タブ区切り'}
+                </label>
+                <button onClick={() => csvInputRef.current?.click()}
+                  className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300">
+                  <FileSpreadsheet size={12} /> CSV を読み込む
+                </button>
+                <input ref={csvInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importCsv(file);
+                    e.target.value = '';
+                  }} />
+              </div>
+              <textarea value={source} onChange={(e) => setSource(e.target.value)} rows={10}
+                placeholder={mode === 'list' ? '第1話 はじまり\n第2話 旅立ち' : 'title,preset\n第1話 はじまり,ネオン風'}
+                className={`${field} font-mono`} />
+              {mode === 'csv' && (
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)}
+                    className="accent-blue-500" />
+                  1 行目は見出し
+                </label>
+              )}
+            </div>
+
+            {/* 列 → レイヤーのテキスト */}
+            <div className="space-y-2">
+              <label className="text-[10px] text-slate-500 uppercase font-bold">Text</label>
+              {[...layers].reverse().map(layer => (
+                <div key={layer.id} className="flex items-center gap-2">
+                  <span className="w-28 truncate text-xs text-slate-300" title={layerLabel(layer)}>{layerLabel(layer)}</span>
+                  <select value={validMapping.textColumns[layer.id] ?? ''} className={`${field} flex-1`}
+                    onChange={(e) => setTextColumn(layer.id, e.target.value === '' ? null : Number(e.target.value))}>
+                    <option value="">そのまま</option>
+                    {columnOptions}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[10px] text-slate-500 uppercase font-bold">Preset</label>
+              <select value={validMapping.presetColumn ?? ''} className={field}
+                onChange={(e) => setMapping({ ...mapping, presetColumn: e.target.value === '' ? null : Number(e.target.value) })}>
+                <option value="">使わない</option>
+                {columnOptions}
+              </select>
+              <p className="text-[10px] text-slate-500">列の値と同じ名前のプリセットを、テキストを差し替えるレイヤーに適用します</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-[10px] text-slate-500 uppercase font-bold">File Name</label>
+              <input value={template} onChange={(e) => setTemplate(e.target.value)} className={`${field} font-mono`} />
+              <p className="text-[10px] text-slate-500 font-mono break-all">
+                {'{index}'} {'{index:02}'} {table.columns.map(column => `{${column}}`).join(' ')}
+              </p>
+            </div>
+          </div>
+
+          {/* プレビュー */}
+          <div className="flex flex-1 min-w-0 flex-col">
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+              {items.length === 0 ? (
+                <p className="py-16 text-center text-sm text-slate-500">タイトルを入力するとここにプレビューが並びます</p>
+              ) : (
+                <div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-3">
+                  {items.slice(0, PREVIEW_LIMIT).map(item => (
+                    <div key={item.index} className="space-y-1 rounded-md border border-slate-700 bg-slate-900 p-2">
+                      <BatchThumbnail layers={item.layers} settings={settings} background={background} />
+                      <p className="truncate text-[10px] font-mono text-slate-300" title={item.filename}>{item.filename}</p>
+                      {item.warnings.map(warning => (
+                        <p key={warning} className="flex items-center gap-1 text-[10px] text-amber-400">
+                          <AlertTriangle size={10} /> {warning}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {items.length > PREVIEW_LIMIT && (
+                <p className="mt-3 text-center text-xs text-slate-500">ほか {items.length - PREVIEW_LIMIT} 件（書き出しには含まれます）</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between border-t border-slate-700 px-4 py-3">
+              <span className="text-xs text-slate-400">
+                {items.length} 件 ・ {settings.width * settings.multiplier} × {settings.height * settings.multiplier} px
+                {warningCount > 0 && <span className="ml-2 text-amber-400">警告 {warningCount} 件</span>}
+              </span>
+              <button onClick={downloadZip} disabled={items.length === 0 || progress !== null}
+                className="bg-orange-600 hover:bg-orange-500 text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-bold transition-colors disabled:opacity-40 disabled:hover:bg-orange-600">
+                <FileArchive size={16} />
+                {progress ? `書き出し中 ${progress.done} / ${progress.total}` : 'Download ZIP'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import {
+  EXPORT_MULTIPLIERS,
+  EXPORT_SIZE_PRESETS,
+  IMAGE_FORMATS,
+  MAX_TRIM_PADDING,
+  clampExportSide,
+  type ExportSettings,
+  type ExportSizePresetId,
+  type ImageFormat,
+  type SvgFontMode,
+} from '../export/settings';
+import Slider from './Slider';
+
+const SVG_FONT_MODES: { id: SvgFontMode; label: string }[] = [
+  { id: 'embed', label: 'Embed' },
+  { id: 'reference', label: 'Link' },
+  { id: 'none', label: 'None' },
+];
+
+type Props = {
+  settings: ExportSettings;
+  filename: string;             // 今の設定で書き出したときのファイル名（拡張子なし）
+  onChange: (settings: ExportSettings) => void;
+};
+
+const toggleButton = (active: boolean) => `flex-1 px-3 py-1.5 text-xs rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 入力中の値はそのままにして、確定（blur / Enter）時に範囲内へ丸める
+export default function ExportSettingsPanel({ settings, filename, onChange }: Props) {
+  const format = IMAGE_FORMATS[settings.format];
+
+  const handlePresetChange = (id: ExportSizePresetId) => {
+    const preset = EXPORT_SIZE_PRESETS.find(p => p.id === id);
+    // カスタムに切り替えたときは現在のサイズをそのまま引き継ぐ
+    onChange(preset
+      ? { ...settings, sizePreset: id, width: preset.width, height: preset.height }
+      : { ...settings, sizePreset: 'custom' });
+  };
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Export</h3>
+
+      <div className="space-y-1">
+        <label className="text-[10px] text-slate-500 uppercase font-bold">Size</label>
+        <select
+          value={settings.sizePreset}
+          onChange={(e) => handlePresetChange(e.target.value as ExportSizePresetId)}
+          className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-2 text-sm focus:outline-none focus:border-blue-500 text-white cursor-pointer"
+        >
+          {EXPORT_SIZE_PRESETS.map(p => (
+            <option key={p.id} value={p.id} className="text-white bg-slate-900">{p.label}</option>
+          ))}
+          <option value="custom" className="text-white bg-slate-900">カスタム W×H</option>
+        </select>
+      </div>
+
+      {settings.sizePreset === 'custom' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className="text-[10px] text-slate-500 uppercase font-bold">Width</label>
+            <input
+              type="number"
+              key={settings.width}
+              defaultValue={settings.width}
+              onBlur={(e) => onChange({ ...settings, width: clampExportSide(Number(e.target.value)) })}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] text-slate-500 uppercase font-bold">Height</label>
+            <input
+              type="number"
+              key={settings.height}
+              defaultValue={settings.height}
+              onBlur={(e) => onChange({ ...settings, height: clampExportSide(Number(e.target.value)) })}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">Scale</span>
+        <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+          {EXPORT_MULTIPLIERS.map(m => (
+            <button
+              key={m}
+              onClick={() => onChange({ ...settings, multiplier: m })}
+              className={toggleButton(settings.multiplier === m)}
+            >
+              {m}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-slate-500 font-mono text-right">
+        {settings.width * settings.multiplier} × {settings.height * settings.multiplier} px
+      </p>
+
+      {/* SVG に同梱フォントを埋め込むか、URL で参照するか */}
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">SVG Fonts</span>
+        <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+          {SVG_FONT_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => onChange({ ...settings, svgFonts: mode.id })}
+              className={toggleButton(settings.svgFonts === mode.id)}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* 画像の形式（SVG 以外の書き出し・コピーに使う） */}
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">Format</span>
+        <div className="flex bg-slate-950 rounded-lg p-1 border border-slate-800">
+          {(Object.keys(IMAGE_FORMATS) as ImageFormat[]).map(id => (
+            <button key={id} onClick={() => onChange({ ...settings, format: id })} className={toggleButton(settings.format === id)}>
+              {IMAGE_FORMATS[id].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {format.lossy && (
+        <Slider label="Quality" value={settings.quality} min={0.1} max={1} step={0.01} unit="%"
+          onChange={(quality) => onChange({ ...settings, quality })} />
+      )}
+
+      {!format.alpha && (
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400">下地の色</span>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-slate-500">{format.label} は透明にできません</span>
+            <input type="color" value={settings.matteColor} onChange={(e) => onChange({ ...settings, matteColor: e.target.value })}
+              className="w-6 h-6 rounded bg-transparent cursor-pointer" />
+          </div>
+        </div>
+      )}
+
+      {/* 縁取り・影を含めて描かれている範囲だけを切り出す */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={settings.trim} onChange={(e) => onChange({ ...settings, trim: e.target.checked })}
+            className="accent-blue-500" />
+          余白を切り落とす
+          <span className="text-[10px] text-slate-500">（SVG は全体のまま）</span>
+        </label>
+        <Slider label="Padding" value={settings.trimPadding} min={0} max={MAX_TRIM_PADDING} disabled={!settings.trim}
+          onChange={(trimPadding) => onChange({ ...settings, trimPadding })} />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] text-slate-500 uppercase font-bold">File Name</label>
+        <input
+          key={settings.filenameTemplate}
+          defaultValue={settings.filenameTemplate}
+          onBlur={(e) => onChange({ ...settings, filenameTemplate: e.target.value })}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-white font-mono focus:border-blue-500 focus:outline-none"
+        />
+        <p className="text-[10px] text-slate-500 font-mono">{'{text} {preset} {width} {height} {date}'}</p>
+        <p className="text-[10px] text-slate-400 font-mono truncate" title={`${filename}${format.extension}`}>
+          → {filename}{format.extension}
+        </p>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,243 @@
+import { useDeferredValue, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Search, Star } from 'lucide-react';
+import type { TextStyle } from '../render/types';
+import { fontLabel } from '../fonts/fontAvailability';
+import { supportsJapanese } from '../fonts/glyphCoverage';
+import {
+  loadFavoriteFonts, loadRecentFonts, matchesFontQuery, pushRecentFont, storeFavoriteFonts, storeRecentFonts,
+  type FontEntry, type FontSource, type FontVariant,
+} from '../fonts/fontCatalog';
+
+type Props = {
+  catalog: FontEntry[];
+  style: Pick<TextStyle, 'fontFamily' | 'fontWeight' | 'fontStyle'>;
+  previewText: string;          // 各フォントの見本に使う（今のテキストの 1 行目）
+  onSelect: (patch: Pick<TextStyle, 'fontFamily' | 'fontWeight' | 'fontStyle'>) => void;
+};
+
+type Filter = 'all' | 'japanese' | 'favorites' | 'recent';
+
+const FILTERS: { filter: Filter; label: string }[] = [
+  { filter: 'all', label: 'すべて' },
+  { filter: 'japanese', label: '日本語' },
+  { filter: 'favorites', label: 'お気に入り' },
+  { filter: 'recent', label: '最近' },
+];
+
+const SOURCE_LABELS: Record<FontSource, string> = {
+  standard: 'Standard Fonts',
+  uploaded: 'Uploaded Fonts',
+  system: 'System Fonts',
+};
+
+const SAMPLE_TEXT = 'あア亜 Aa 123';
+// システムフォントは数百になるので、見本を描く数を区切って増やす
+const PAGE_SIZE = 60;
+
+const toggleButton = (active: boolean) => `flex-1 px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 今の太さ・スタイルに一番近いもの（ファミリーを切り替えても太さをなるべく保つ）
+function closestVariant(variants: FontVariant[], weight: number, style: TextStyle['fontStyle']) {
+  return variants.reduce((best, variant) => {
+    const score = (v: FontVariant) => Math.abs(v.weight - weight) + (v.style === style ? 0 : 1000);
+    return score(variant) < score(best) ? variant : best;
+  });
+}
+
+// 日本語を含むフォントを順に調べる（フォントの読み込みを待つので少しずつ結果を出す）
+function useJapaneseFonts(catalog: FontEntry[], enabled: boolean) {
+  const [families, setFamilies] = useState<{ catalog: FontEntry[]; found: Set<string>; done: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    (async () => {
+      const found = new Set<string>();
+      for (const [index, entry] of catalog.entries()) {
+        if (cancelled) return;
+        if (await supportsJapanese(entry.family)) found.add(entry.family);
+        if (!cancelled && index % 20 === 19) setFamilies({ catalog, found: new Set(found), done: false });
+      }
+      if (!cancelled) setFamilies({ catalog, found, done: true });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [catalog, enabled]);
+
+  return families?.catalog === catalog ? families : null;
+}
+
+// 検索・絞り込み付きのフォント一覧。各フォントの見本はそのフォントで描く
+// お気に入りと最近使ったフォントはブラウザに保存する
+export default function FontBrowser({ catalog, style, previewText, onSelect }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<Filter>('all');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [favorites, setFavorites] = useState(loadFavoriteFonts);
+  const [recent, setRecent] = useState(loadRecentFonts);
+
+  const deferredQuery = useDeferredValue(query);
+  const sample = useDeferredValue(previewText.split('\n').find(line => line.trim())?.slice(0, 40) || SAMPLE_TEXT);
+  const japanese = useJapaneseFonts(catalog, isOpen && filter === 'japanese');
+
+  const current = catalog.find(entry => entry.family === style.fontFamily);
+  const currentVariant = current?.variants.find(v => v.weight === style.fontWeight && v.style === style.fontStyle);
+
+  const filtered = (() => {
+    switch (filter) {
+      case 'japanese':
+        return catalog.filter(entry => japanese?.found.has(entry.family));
+      case 'favorites':
+        return catalog.filter(entry => favorites.includes(entry.family));
+      case 'recent':
+        // 使った順に並べる
+        return recent.flatMap(family => catalog.filter(entry => entry.family === family));
+      default:
+        return catalog;
+    }
+  })().filter(entry => matchesFontQuery(entry, deferredQuery));
+  const visible = filtered.slice(0, limit);
+
+  const toggleFavorite = (family: string) => {
+    const next = favorites.includes(family) ? favorites.filter(f => f !== family) : [...favorites, family];
+    setFavorites(next);
+    storeFavoriteFonts(next);
+  };
+
+  const select = (entry: FontEntry, variant = closestVariant(entry.variants, style.fontWeight, style.fontStyle)) => {
+    onSelect({ fontFamily: entry.family, fontWeight: variant.weight, fontStyle: variant.style });
+    const next = pushRecentFont(recent, entry.family);
+    setRecent(next);
+    storeRecentFonts(next);
+  };
+
+  const changeFilter = (next: Filter) => {
+    setFilter(next);
+    setLimit(PAGE_SIZE);
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center gap-2 bg-slate-900 border border-slate-700 rounded px-2 py-2 text-sm text-left text-white hover:border-slate-500 transition-colors"
+      >
+        <span className="flex-1 min-w-0 truncate" style={{ fontFamily: style.fontFamily, fontWeight: style.fontWeight, fontStyle: style.fontStyle }}>
+          {current?.label ?? fontLabel(style.fontFamily)}
+        </span>
+        {current && current.variants.length > 1 && (
+          <span className="text-[10px] text-slate-400">{currentVariant?.label ?? style.fontWeight}</span>
+        )}
+        {isOpen ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="space-y-2 rounded border border-slate-700 bg-slate-900/60 p-2">
+          <div className="relative">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setLimit(PAGE_SIZE);
+              }}
+              onKeyDown={(e) => {
+                // Enter で先頭の候補を選ぶ
+                if (e.key === 'Enter' && filtered[0]) select(filtered[0]);
+                if (e.key === 'Escape') setIsOpen(false);
+              }}
+              placeholder="フォントを検索"
+              className="w-full rounded border border-slate-600 bg-slate-900 pl-7 pr-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500"
+            />
+          </div>
+
+          <div className="flex bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+            {FILTERS.map(f => (
+              <button key={f.filter} onClick={() => changeFilter(f.filter)} className={toggleButton(filter === f.filter)}>
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          {filter === 'japanese' && !japanese?.done && (
+            <p className="text-[10px] text-slate-500">日本語を含むフォントを調べています…</p>
+          )}
+
+          <ul className="max-h-80 overflow-y-auto space-y-0.5 pr-1">
+            {visible.map((entry, index) => {
+              const isSelected = entry.family === style.fontFamily;
+              const isFavorite = favorites.includes(entry.family);
+              const showHeading = filter === 'all' && entry.source !== visible[index - 1]?.source;
+              return (
+                <li key={`${entry.source}:${entry.family}`}>
+                  {showHeading && (
+                    <p className="px-1 pt-2 pb-1 text-[10px] font-semibold text-slate-500 uppercase tracking-wider">
+                      {SOURCE_LABELS[entry.source]}
+                    </p>
+                  )}
+                  <div className={`group flex items-start gap-1 rounded px-1 py-1 ${isSelected ? 'bg-blue-600/20 ring-1 ring-blue-500/60' : 'hover:bg-slate-800'}`}>
+                    <button
+                      onClick={() => toggleFavorite(entry.family)}
+                      title={isFavorite ? 'お気に入りから外す' : 'お気に入りに追加'}
+                      className={`p-1 rounded transition-colors ${isFavorite ? 'text-amber-400' : 'text-slate-600 hover:text-slate-300'}`}
+                    >
+                      <Star size={12} fill={isFavorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button onClick={() => select(entry)} className="flex-1 min-w-0 text-left">
+                      <span className="block text-[10px] text-slate-400 truncate">
+                        {entry.label}
+                        {entry.variants.length > 1 && <span className="ml-1 text-slate-600">{entry.variants.length} styles</span>}
+                      </span>
+                      <span className="block truncate text-lg leading-tight text-white" style={{ fontFamily: entry.family }}>
+                        {sample}
+                      </span>
+                    </button>
+                  </div>
+
+                  {isSelected && entry.variants.length > 1 && (
+                    <div className="flex flex-wrap gap-1 px-7 py-1">
+                      {entry.variants.map(variant => {
+                        const active = variant.weight === style.fontWeight && variant.style === style.fontStyle;
+                        return (
+                          <button
+                            key={`${variant.weight}-${variant.style}`}
+                            onClick={() => select(entry, variant)}
+                            className={`px-2 py-0.5 rounded border text-xs transition-colors ${
+                              active ? 'border-blue-500 bg-blue-600 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'
+                            }`}
+                            style={{ fontFamily: entry.family, fontWeight: variant.weight, fontStyle: variant.style }}
+                          >
+                            {variant.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {filtered.length === 0 && (
+            <p className="text-[10px] text-slate-500 text-center py-2">
+              {filter === 'favorites' ? '☆ でお気に入りに追加できます' : '該当するフォントがありません'}
+            </p>
+          )}
+          {filtered.length > visible.length && (
+            <button
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              className="w-full text-[10px] py-1 text-blue-400 hover:bg-slate-800 rounded transition-colors"
+            >
+              さらに表示（残り {filtered.length - visible.length}）
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
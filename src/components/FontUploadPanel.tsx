@@ -0,0 +1,63 @@
+import { useRef } from 'react';
+import { Trash2, Upload } from 'lucide-react';
+import { CUSTOM_FONT_ACCEPT, customFontFamily, type CustomFont } from '../fonts/customFonts';
+
+type Props = {
+  fonts: CustomFont[];
+  onUpload: (files: File[]) => void;
+  onRemove: (font: CustomFont) => void;
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// 読み込んだフォントファイルの一覧（ブラウザに保存され、次回も Font Family に出る）
+export default function FontUploadPanel({ fonts, onUpload, onRemove }: Props) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] text-slate-500">Uploaded Fonts（TTF / OTF / WOFF / WOFF2）</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-[10px] px-2 py-1 bg-slate-700 hover:bg-slate-600 text-blue-400 rounded border border-slate-600 transition-colors"
+        >
+          <Upload size={12} /> Upload Font
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={CUSTOM_FONT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            if (files.length > 0) onUpload(files);
+          }}
+        />
+      </div>
+
+      {fonts.length > 0 && (
+        <ul className="space-y-1">
+          {fonts.map(font => (
+            <li key={font.id} className="flex items-center gap-2 bg-slate-900 border border-slate-700 rounded px-2 py-1">
+              <span className="flex-1 min-w-0 truncate text-xs text-slate-200" style={{ fontFamily: customFontFamily(font) }} title={font.fileName}>
+                {font.name}
+              </span>
+              <span className="text-[10px] text-slate-500">{formatSize(font.data.byteLength)}</span>
+              <button
+                onClick={() => onRemove(font)}
+                className="p-1 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded transition-colors"
+                title="フォントを削除"
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
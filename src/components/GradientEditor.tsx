@@ -0,0 +1,104 @@
+import { Plus, X } from 'lucide-react';
+import type { Gradient, GradientScope, GradientStop } from '../render/types';
+import { gradientToCss, sortedStops } from '../render/gradient';
+
+type Props = {
+  gradient: Gradient;
+  onChange: (gradient: Gradient) => void;
+  compact?: boolean;            // 縁取り用の小さい表示
+  showScope?: boolean;          // 背景のように範囲の概念がないときは隠す
+};
+
+const SCOPES: { id: GradientScope; label: string }[] = [
+  { id: 'line', label: '行ごと' },
+  { id: 'char', label: '文字ごと' },
+  { id: 'block', label: '全体' },
+];
+
+const toggleButton = (active: boolean) => `flex-1 px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 2 つの停止点の中間色（追加時の初期値）
+function midStop(stops: GradientStop[]): GradientStop {
+  const sorted = sortedStops(stops);
+  let a = sorted[0];
+  let b = sorted[sorted.length - 1];
+  // 一番間隔の広いところに差し込む
+  for (let i = 0; i < sorted.length - 1; i++) {
+    if (sorted[i + 1].offset - sorted[i].offset > b.offset - a.offset) {
+      a = sorted[i];
+      b = sorted[i + 1];
+    }
+  }
+  return { offset: (a.offset + b.offset) / 2, color: a.color, alpha: (a.alpha + b.alpha) / 2 };
+}
+
+export default function GradientEditor({ gradient, onChange, compact = false, showScope = true }: Props) {
+  const updateStop = (index: number, patch: Partial<GradientStop>) => {
+    onChange({ ...gradient, stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* プレビュー */}
+      <div className={`w-full rounded border border-slate-700 ${compact ? 'h-3' : 'h-5'}`} style={{ background: gradientToCss(gradient) }} />
+
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+          <button onClick={() => onChange({ ...gradient, type: 'linear' })} className={toggleButton(gradient.type === 'linear')}>Linear</button>
+          <button onClick={() => onChange({ ...gradient, type: 'radial' })} className={toggleButton(gradient.type === 'radial')}>Radial</button>
+        </div>
+        {showScope && <select
+          value={gradient.scope}
+          onChange={(e) => onChange({ ...gradient, scope: e.target.value as GradientScope })}
+          className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:outline-none focus:border-blue-500"
+          title="グラデーションの範囲"
+        >
+          {SCOPES.map(scope => <option key={scope.id} value={scope.id}>{scope.label}</option>)}
+        </select>}
+      </div>
+
+      {gradient.type === 'linear' && (
+        <div className="flex items-center gap-2 text-[10px] text-slate-400">
+          <span className="w-12">Angle</span>
+          <input type="range" min="0" max="360" value={gradient.angle}
+            onChange={(e) => onChange({ ...gradient, angle: Number(e.target.value) })}
+            className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+          <span className="w-8 text-right">{gradient.angle}</span>
+        </div>
+      )}
+
+      {/* 停止点（位置・色・透明度） */}
+      <div className="space-y-1">
+        {gradient.stops.map((stop, index) => (
+          <div key={index} className="flex items-center gap-2 text-[10px] text-slate-400">
+            <input type="color" value={stop.color} onChange={(e) => updateStop(index, { color: e.target.value })}
+              className="w-6 h-6 rounded bg-transparent flex-shrink-0" />
+            <input type="range" min="0" max="1" step="0.01" value={stop.offset} title="位置"
+              onChange={(e) => updateStop(index, { offset: Number(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+            <span className="w-7 text-right">{Math.round(stop.offset * 100)}%</span>
+            <input type="range" min="0" max="1" step="0.05" value={stop.alpha} title="不透明度"
+              onChange={(e) => updateStop(index, { alpha: Number(e.target.value) })}
+              className="w-12 h-1 bg-slate-700 accent-blue-500" />
+            <button
+              onClick={() => onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) })}
+              disabled={gradient.stops.length <= 2}
+              className="p-0.5 text-slate-500 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-500"
+              title="停止点を削除"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...gradient, stops: [...gradient.stops, midStop(gradient.stops)] })}
+          className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300"
+        >
+          <Plus size={12} /> Add Stop
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useRef, type ReactNode } from 'react';
+
+type Props = {
+  value: string;
+  onChange: (value: string) => void;
+  highlight: string[];          // 印を付ける文字（フォントにない文字など）
+  highlightTitle?: string;
+  disabled?: boolean;
+  placeholder?: string;
+};
+
+// 同じ書式の文字を textarea の後ろに重ね、指定した文字にだけ背景色を付ける
+// textarea 自体は背景を透明にして、入力・選択・IME はそのまま使う
+// スクロールバーの有無で折り返し位置がずれないよう、両方ともスクロールバーの幅を空けておく
+const TEXT_BOX = 'w-full h-32 rounded p-3 text-base leading-normal font-sans whitespace-pre-wrap break-words';
+const GUTTER = { scrollbarGutter: 'stable' } as const;
+
+export default function HighlightedTextarea({ value, onChange, highlight, highlightTitle, disabled, placeholder }: Props) {
+  const backdropRef = useRef<HTMLDivElement | null>(null);
+  const marked = new Set(highlight);
+
+  const segments: ReactNode[] = [];
+  let plain = '';
+  for (const char of value) {
+    if (!marked.has(char)) {
+      plain += char;
+      continue;
+    }
+    if (plain) segments.push(plain);
+    plain = '';
+    segments.push(<mark key={segments.length} className="bg-amber-500/40 text-transparent rounded-sm">{char}</mark>);
+  }
+  // 最後の改行の後ろにも高さを持たせる（textarea と行数をそろえる）
+  segments.push(`${plain}\n`);
+
+  return (
+    <div className="relative bg-slate-800 border border-slate-700 rounded">
+      <div
+        ref={backdropRef}
+        aria-hidden="true"
+        style={GUTTER}
+        className={`${TEXT_BOX} absolute inset-0 overflow-hidden text-transparent pointer-events-none select-none`}
+      >
+        {segments}
+      </div>
+      <textarea
+        className={`${TEXT_BOX} relative block bg-transparent text-white resize-none focus:outline-none disabled:opacity-50`}
+        style={GUTTER}
+        value={value}
+        disabled={disabled}
+        placeholder={placeholder}
+        title={highlight.length > 0 ? highlightTitle : undefined}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { History as HistoryIcon } from 'lucide-react';
+import type { HistoryEntry } from '../model/history';
+
+type Props<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+  onJump: (index: number) => void;
+};
+
+// 履歴一覧（新しいものが上）。クリックでその時点へ戻る
+// 現在より後の項目は「やり直し」できる分として薄く表示する
+export default function HistoryPanel<T>({ entries, index, onJump }: Props<T>) {
+  return (
+    <div className="border-t border-slate-700 pt-4 mt-4 flex flex-col min-h-0 max-h-[30%]">
+      <h2 className="text-sm font-bold flex items-center gap-2 mb-2 text-slate-300">
+        <HistoryIcon size={16} className="text-slate-400" /> History
+        <span className="ml-auto text-[10px] font-normal text-slate-500">{index + 1} / {entries.length}</span>
+      </h2>
+
+      <div className="flex-1 overflow-y-auto space-y-0.5 pr-2 custom-scrollbar">
+        {entries.map((entry, i) => ({ entry, i })).reverse().map(({ entry, i }) => (
+          <button
+            key={`${i}-${entry.time}`}
+            onClick={() => onJump(i)}
+            className={`w-full text-left truncate rounded px-2 py-1 text-[11px] transition-colors ${
+              i === index
+                ? 'bg-blue-600/30 text-white'
+                : i > index ? 'text-slate-600 hover:bg-slate-700/50' : 'text-slate-400 hover:bg-slate-700/50'
+            }`}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { Eye, EyeOff, Lock, LockOpen, ChevronUp, ChevronDown, Copy, Trash2, Plus, Layers } from 'lucide-react';
+import { layerLabel, type TextLayer } from '../model/layers';
+
+type Props = {
+  layers: TextLayer[];
+  selectedLayerId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<TextLayer>) => void;
+  onMove: (id: string, delta: number) => void;   // +1 で手前へ
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+// 配列の後ろほど手前に描画されるので、一覧は逆順（手前が上）で表示する
+export default function LayerPanel({ layers, selectedLayerId, onSelect, onAdd, onUpdate, onMove, onDuplicate, onDelete }: Props) {
+  const ordered = [...layers].reverse();
+
+  return (
+    <div className="border-t border-slate-700 pt-4 mt-4 flex flex-col min-h-0 max-h-[45%]">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <Layers size={20} className="text-emerald-400" /> Layers
+        </h2>
+        <button onClick={onAdd} className={iconButton} title="レイヤーを追加">
+          <Plus size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 pr-2 custom-scrollbar">
+        {ordered.map((layer, displayIndex) => {
+          const isSelected = layer.id === selectedLayerId;
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`flex items-center gap-1 rounded-md border px-2 py-1.5 cursor-pointer transition-all ${
+                isSelected ? 'border-blue-500 bg-blue-600/20' : 'border-slate-700 bg-slate-900 hover:border-slate-500'
+              }`}
+            >
+              <span className={`flex-1 truncate text-xs ${layer.visible ? 'text-slate-200' : 'text-slate-500 line-through'}`}>
+                {layerLabel(layer)}
+              </span>
+
+              {/* ボタンのクリックで行の選択が走らないようにする */}
+              <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                <button className={iconButton} title={layer.visible ? '非表示' : '表示'}
+                  onClick={() => onUpdate(layer.id, { visible: !layer.visible })}>
+                  {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                </button>
+                <button className={iconButton} title={layer.locked ? 'ロック解除' : 'ロック'}
+                  onClick={() => onUpdate(layer.id, { locked: !layer.locked })}>
+                  {layer.locked ? <Lock size={12} /> : <LockOpen size={12} />}
+                </button>
+                <button className={iconButton} title="手前へ" disabled={displayIndex === 0}
+                  onClick={() => onMove(layer.id, 1)}>
+                  <ChevronUp size={12} />
+                </button>
+                <button className={iconButton} title="奥へ" disabled={displayIndex === ordered.length - 1}
+                  onClick={() => onMove(layer.id, -1)}>
+                  <ChevronDown size={12} />
+                </button>
+                <button className={iconButton} title="複製" onClick={() => onDuplicate(layer.id)}>
+                  <Copy size={12} />
+                </button>
+                <button className={`${iconButton} hover:text-red-500`} title="削除" onClick={() => onDelete(layer.id)}>
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
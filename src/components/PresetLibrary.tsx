@@ -0,0 +1,257 @@
+import { useDeferredValue, useRef, useState } from 'react';
+import {
+  Check, Copy, Download, GripVertical, Pencil, RotateCcw, Search, Star, Sun, Trash2, Upload, X,
+} from 'lucide-react';
+import PresetThumbnail from './PresetThumbnail';
+import { moveItem } from '../model/layers';
+import {
+  PRESET_EXTENSION, duplicatePreset, matchesPresetQuery, normalizeTags, presetCategories, restoreDefaultPresets,
+  uniquePresetName, type Preset,
+} from '../model/presets';
+
+type Props = {
+  presets: Preset[];
+  currentText: string;                      // 「今のテキスト」でサムネイルを描くとき用
+  onChange: (presets: Preset[]) => void;
+  onApply: (preset: Preset) => void;
+  onDelete: (index: number) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+};
+
+type Draft = { name: string; category: string; tags: string };
+
+// 分類の絞り込み（'' はすべて、FAVORITES はお気に入りだけ）
+const FAVORITES = '\u0000favorites';
+const SAMPLE_TEXT = 'サンプル';
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors';
+const field = 'w-full rounded border border-slate-600 bg-slate-900 px-2 py-1 text-xs text-slate-200 outline-none focus:border-blue-500';
+
+export default function PresetLibrary({ presets, currentText, onChange, onApply, onDelete, onImport, onExport }: Props) {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState('');
+  const [useCurrentText, setUseCurrentText] = useState(false);
+  const [editing, setEditing] = useState<{ index: number; draft: Draft } | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // 入力中に毎回すべてのサムネイルを描き直さないよう、テキストの反映は後回しにする
+  const previewText = useDeferredValue(useCurrentText && currentText.trim() ? currentText : SAMPLE_TEXT);
+
+  const categories = presetCategories(presets);
+  const visible = presets
+    .map((preset, index) => ({ preset, index }))
+    .filter(({ preset }) => category === FAVORITES ? preset.favorite
+      : !category || preset.category === category)
+    .filter(({ preset }) => matchesPresetQuery(preset, query));
+
+  const replace = (index: number, preset: Preset) =>
+    onChange(presets.map((p, i) => (i === index ? preset : p)));
+
+  const startEditing = (index: number) => {
+    const preset = presets[index];
+    setEditing({ index, draft: { name: preset.name, category: preset.category ?? '', tags: (preset.tags ?? []).join(', ') } });
+  };
+
+  const finishEditing = () => {
+    if (!editing) return;
+    const { index, draft } = editing;
+    const preset = presets[index];
+    const name = draft.name.trim();
+    const others = presets.filter((_, i) => i !== index).map(p => p.name);
+    const next: Preset = {
+      ...preset,
+      name: name ? uniquePresetName(name, others) : preset.name,
+      category: draft.category.trim() || undefined,
+      tags: normalizeTags(draft.tags.split(/[,、]/)),
+    };
+    if (!next.category) delete next.category;
+    if (next.tags?.length === 0) delete next.tags;
+    replace(index, next);
+    setEditing(null);
+  };
+
+  const duplicate = (index: number) => {
+    const next = [...presets];
+    next.splice(index + 1, 0, duplicatePreset(presets[index], presets));
+    onChange(next);
+  };
+
+  const restoreDefaults = () => {
+    const next = restoreDefaultPresets(presets);
+    if (next.length === presets.length) {
+      alert('組み込みのプリセットはすべて揃っています。');
+      return;
+    }
+    onChange(next);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <Sun size={20} className="text-yellow-400" /> Presets
+        </h2>
+        <div className="flex items-center">
+          <button onClick={restoreDefaults} title="組み込みのプリセットを復元" className={iconButton}>
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} title="プリセット集を読み込む" className={iconButton}>
+            <Upload size={16} />
+          </button>
+          <button onClick={onExport} title="プリセット集を書き出す" className={iconButton}>
+            <Download size={16} />
+          </button>
+          <input ref={fileInputRef} type="file" accept={`${PRESET_EXTENSION},application/json`} className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }} />
+        </div>
+      </div>
+
+      {/* 検索・絞り込み */}
+      <div className="space-y-2 mb-3">
+        <div className="relative">
+          <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input type="search" value={query} onChange={(e) => setQuery(e.target.value)}
+            placeholder="名前・分類・タグで検索" className={`${field} pl-6`} />
+        </div>
+        <div className="flex gap-1">
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={`${field} flex-1`}>
+            <option value="">すべて</option>
+            <option value={FAVORITES}>★ お気に入り</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button onClick={() => setUseCurrentText(!useCurrentText)}
+            title="サムネイルに使う文字を切り替え"
+            className={`shrink-0 rounded border px-2 text-xs transition-colors ${
+              useCurrentText ? 'border-blue-500 bg-blue-600/20 text-blue-300' : 'border-slate-600 text-slate-400 hover:text-white'
+            }`}>
+            {useCurrentText ? '入力中の文字' : 'サンプル'}
+          </button>
+        </div>
+      </div>
+
+      {/* スクロール可能なエリア */}
+      <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
+        {visible.length === 0 && (
+          <p className="text-center text-xs text-slate-500 py-4">該当するプリセットがありません</p>
+        )}
+
+        {visible.map(({ preset, index }) => {
+          const draft = editing?.index === index ? editing.draft : null;
+          // 絞り込み中に並べ替えると、見えていない項目との位置関係がわかりにくいので止める
+          const draggable = !draft && !query && !category;
+          return (
+            <div
+              key={index}
+              draggable={draggable}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', preset.name);
+                setDragIndex(index);
+              }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                e.stopPropagation();
+                onChange(moveItem(presets, dragIndex, index - dragIndex));
+                endDrag();
+              }}
+              onDragEnd={endDrag}
+              onClick={() => {
+                if (!draft) onApply(preset);
+              }}
+              className={`group relative w-full overflow-hidden rounded-lg border bg-slate-900 transition-all ${
+                dropIndex === index && dragIndex !== index ? 'border-blue-400 ring-1 ring-blue-400'
+                  : 'border-slate-700 hover:border-blue-500 hover:ring-1 hover:ring-blue-500'
+              } ${dragIndex === index ? 'opacity-40' : ''} ${draft ? '' : 'cursor-pointer'}`}
+            >
+              <div className="p-2">
+                <PresetThumbnail config={preset.config} text={previewText} />
+
+                {draft ? (
+                  // 名前・分類・タグの編集
+                  <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishEditing();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}>
+                    <input autoFocus value={draft.name} placeholder="名前" className={field}
+                      onChange={(e) => setEditing({ index, draft: { ...draft, name: e.target.value } })} />
+                    <input value={draft.category} placeholder="分類" list="preset-categories" className={field}
+                      onChange={(e) => setEditing({ index, draft: { ...draft, category: e.target.value } })} />
+                    <input value={draft.tags} placeholder="タグ（カンマ区切り）" className={field}
+                      onChange={(e) => setEditing({ index, draft: { ...draft, tags: e.target.value } })} />
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => setEditing(null)} title="キャンセル" className={iconButton}>
+                        <X size={14} />
+                      </button>
+                      <button onClick={finishEditing} title="確定" className={`${iconButton} text-blue-400`}>
+                        <Check size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-2 flex items-center gap-1">
+                    {draggable && <GripVertical size={12} className="shrink-0 text-slate-600 cursor-grab" />}
+                    <span className="flex-1 truncate text-sm font-medium text-slate-200">{preset.name}</span>
+
+                    {/* ボタンのクリックでプリセットが適用されないようにする */}
+                    <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                      <button className={`${iconButton} ${preset.favorite ? 'text-yellow-400' : ''}`}
+                        title={preset.favorite ? 'お気に入りから外す' : 'お気に入りに追加'}
+                        onClick={() => replace(index, { ...preset, favorite: !preset.favorite })}>
+                        <Star size={12} fill={preset.favorite ? 'currentColor' : 'none'} />
+                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button className={iconButton} title="名前・分類を編集" onClick={() => startEditing(index)}>
+                          <Pencil size={12} />
+                        </button>
+                        <button className={iconButton} title="複製" onClick={() => duplicate(index)}>
+                          <Copy size={12} />
+                        </button>
+                        <button className={`${iconButton} hover:text-red-500`} title="削除" onClick={() => onDelete(index)}>
+                          <Trash2 size={12} />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {!draft && (preset.category || preset.tags?.length) ? (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {preset.category && (
+                      <span className="rounded bg-slate-700 px-1.5 text-[10px] text-slate-300">{preset.category}</span>
+                    )}
+                    {preset.tags?.map(tag => (
+                      <span key={tag} className="rounded border border-slate-700 px-1.5 text-[10px] text-slate-400">#{tag}</span>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <datalist id="preset-categories">
+        {categories.map(c => <option key={c} value={c} />)}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { measureTextBounds, renderLayers } from '../render/renderDecoratedText';
+import { ensureFontsLoaded } from '../fonts/loadFonts';
+import { DEFAULT_TEXT_STYLE } from '../model/layers';
+import { applyPresetConfig, type PresetConfig } from '../model/presets';
+
+type Props = {
+  config: PresetConfig;
+  text: string;
+};
+
+// サムネイルのキャンバス（CSS では親の幅に合わせて縮める）
+const WIDTH = 448;
+const HEIGHT = 112;
+// 等倍で測るときの作業領域（十分に広ければよい）
+const WORKSPACE = 4096;
+
+// プリセットを実際の描画エンジンで描いたサムネイル
+// 縁取り・影を含めた大きさを等倍で測り、枠に収まる倍率で描き直す
+export default function PresetThumbnail({ config, text }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    let cancelled = false;
+    const style = applyPresetConfig(DEFAULT_TEXT_STYLE, config);
+    const layer = { text, style, offsetX: 0, offsetY: 0, visible: true };
+
+    ensureFontsLoaded([style]).then(() => {
+      if (cancelled) return;
+      const natural = measureTextBounds(ctx, layer, { width: WORKSPACE, height: WORKSPACE });
+      const scale = Math.min(1, (WIDTH * 0.9) / Math.max(1, natural.width), (HEIGHT * 0.8) / Math.max(1, natural.height));
+      const centered = {
+        ...layer,
+        offsetX: WORKSPACE / 2 - (natural.x + natural.width / 2),
+        offsetY: WORKSPACE / 2 - (natural.y + natural.height / 2),
+      };
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      renderLayers(ctx, [centered], { width: WIDTH, height: HEIGHT, scale });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [config, text]);
+
+  return <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="w-full h-auto rounded bg-slate-950" />;
+}
@@ -0,0 +1,35 @@
+import { Crosshair, Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { MAX_ZOOM, MIN_ZOOM, ZOOM_STEP } from '../model/viewport';
+
+type Props = {
+  zoom: number;                 // 1 = 全体表示
+  onZoom: (zoom: number) => void;
+  onFit: () => void;
+  onResetPosition: (() => void) | null;     // 選択中のレイヤーがなければ null
+};
+
+const iconButton = 'p-1.5 text-slate-300 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+
+// プレビュー右上の操作（拡大率と、選択中のレイヤーを中央に戻すボタン）
+export default function PreviewToolbar({ zoom, onZoom, onFit, onResetPosition }: Props) {
+  return (
+    <div className="absolute top-2 right-2 z-10 flex items-center gap-0.5 rounded-md border border-slate-700 bg-slate-900/90 p-0.5 text-xs">
+      <button onClick={() => onZoom(zoom / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} title="縮小（-）" className={iconButton}>
+        <ZoomOut size={14} />
+      </button>
+      <button onClick={onFit} title="全体を表示（0）" className="w-12 py-1 text-center font-mono text-slate-300 hover:text-white hover:bg-slate-700 rounded transition-colors">
+        {Math.round(zoom * 100)}%
+      </button>
+      <button onClick={() => onZoom(zoom * ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} title="拡大（+）" className={iconButton}>
+        <ZoomIn size={14} />
+      </button>
+      <button onClick={onFit} disabled={zoom === 1} title="全体を表示" className={iconButton}>
+        <Maximize size={14} />
+      </button>
+      <div className="w-px h-4 bg-slate-700 mx-0.5" />
+      <button onClick={() => onResetPosition?.()} disabled={!onResetPosition} title="選択中のレイヤーを中央に戻す" className={iconButton}>
+        <Crosshair size={14} />
+      </button>
+    </div>
+  );
+}
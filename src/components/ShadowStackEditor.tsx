@@ -0,0 +1,80 @@
+import { Eye, EyeOff, Plus, Sparkles, Trash2 } from 'lucide-react';
+import type { ShadowEntry } from '../render/types';
+import { createGlow, createShadow } from '../model/shadows';
+import Slider from './Slider';
+
+type Props = {
+  shadows: ShadowEntry[];
+  onChange: (shadows: ShadowEntry[]) => void;
+};
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+const toggleButton = (active: boolean) => `flex-1 px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 影・光彩リストの編集
+export default function ShadowStackEditor({ shadows, onChange }: Props) {
+  const update = (index: number, patch: Partial<ShadowEntry>) => {
+    onChange(shadows.map((shadow, i) => (i === index ? { ...shadow, ...patch } : shadow)));
+  };
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Shadow / Effects</h3>
+        <div className="flex items-center">
+          <button onClick={() => onChange([...shadows, createShadow()])} className={iconButton} title="影を追加">
+            <Plus size={14} />
+          </button>
+          <button onClick={() => onChange([...shadows, createGlow()])} className={iconButton} title="光彩を追加">
+            <Sparkles size={14} />
+          </button>
+        </div>
+      </div>
+
+      {shadows.length === 0 && (
+        <p className="text-[10px] text-slate-500">影なし</p>
+      )}
+
+      {shadows.map((shadow, index) => {
+        const isGlow = shadow.mode === 'glow';
+        return (
+          <div key={shadow.id} className={`space-y-2 rounded-md border border-slate-700 bg-slate-900/50 p-2 ${shadow.enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <input type="color" value={shadow.color} onChange={(e) => update(index, { color: e.target.value })} className="w-6 h-6 rounded bg-transparent" />
+              <div className="flex flex-1 bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+                <button onClick={() => update(index, { mode: 'shadow' })} className={toggleButton(!isGlow)}>Shadow</button>
+                <button onClick={() => update(index, { mode: 'glow' })} className={toggleButton(isGlow)}>Glow</button>
+              </div>
+              <button className={iconButton} title={shadow.enabled ? '無効にする' : '有効にする'}
+                onClick={() => update(index, { enabled: !shadow.enabled })}>
+                {shadow.enabled ? <Eye size={12} /> : <EyeOff size={12} />}
+              </button>
+              <button className={`${iconButton} hover:text-red-500`} title="削除"
+                onClick={() => onChange(shadows.filter((_, i) => i !== index))}>
+                <Trash2 size={12} />
+              </button>
+            </div>
+
+            <select
+              value={shadow.placement}
+              onChange={(e) => update(index, { placement: e.target.value as ShadowEntry['placement'] })}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:outline-none focus:border-blue-500"
+            >
+              <option value="behindStrokes">縁取りの後ろ</option>
+              <option value="behindFill">縁取りと本体の間</option>
+            </select>
+
+            {/* glow は位置をずらさないのでオフセットは使わない */}
+            <Slider label="X" value={shadow.offsetX} min={-60} max={60} disabled={isGlow} onChange={(v) => update(index, { offsetX: v })} />
+            <Slider label="Y" value={shadow.offsetY} min={-60} max={60} disabled={isGlow} onChange={(v) => update(index, { offsetY: v })} />
+            <Slider label="Blur" value={shadow.blur} min={0} max={120} onChange={(v) => update(index, { blur: v })} />
+            <Slider label="Spread" value={shadow.spread} min={0} max={40} onChange={(v) => update(index, { spread: v })} />
+            <Slider label="Opacity" value={shadow.opacity} min={0} max={1} step={0.05} unit="%" onChange={(v) => update(index, { opacity: v })} />
+          </div>
+        );
+      })}
+    </section>
+  );
+}
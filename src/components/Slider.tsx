@@ -0,0 +1,23 @@
+type SliderProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+};
+
+// ラベル・スライダー・現在値を 1 行に並べる（unit が % のときは 0〜1 の値を百分率で表示）
+export default function Slider({ label, value, min, max, step = 1, unit = 'px', disabled = false, onChange }: SliderProps) {
+  return (
+    <div className={`flex items-center gap-2 text-[10px] text-slate-400 ${disabled ? 'opacity-40' : ''}`}>
+      <span className="w-12">{label}</span>
+      <input type="range" min={min} max={max} step={step} value={value} disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+      <span className="w-8 text-right">{unit === '%' ? Math.round(value * 100) : value}{unit}</span>
+    </div>
+  );
+}
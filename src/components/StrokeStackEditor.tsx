@@ -0,0 +1,121 @@
+import { ChevronUp, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import type { StrokeEntry } from '../render/types';
+import { createStroke } from '../model/strokes';
+import { moveItem } from '../model/layers';
+import { gradientToCss } from '../render/gradient';
+import GradientEditor from './GradientEditor';
+
+type Props = {
+  strokes: StrokeEntry[];
+  onChange: (strokes: StrokeEntry[]) => void;
+};
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent';
+const toggleButton = (active: boolean) => `flex-1 px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+
+// 縁取りリストの編集。先頭が内側（本体の直下）、末尾が一番外側
+export default function StrokeStackEditor({ strokes, onChange }: Props) {
+  const update = (index: number, patch: Partial<StrokeEntry>) => {
+    onChange(strokes.map((stroke, i) => (i === index ? { ...stroke, ...patch } : stroke)));
+  };
+
+  // 新しい縁は一番外側に、今の外側より少し太く追加する
+  const add = () => {
+    const outer = strokes[strokes.length - 1];
+    onChange([...strokes, createStroke({ width: outer ? outer.width + 6 : 8 })]);
+  };
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Borders</h3>
+        <button onClick={add} className={iconButton} title="縁取りを追加">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {strokes.length === 0 && (
+        <p className="text-[10px] text-slate-500">縁取りなし</p>
+      )}
+
+      {strokes.map((stroke, index) => (
+        <div key={stroke.id} className="space-y-2 rounded-md border border-slate-700 bg-slate-900/50 p-2">
+          <div className="flex justify-between items-center text-[10px] text-slate-400">
+            <span>
+              #{index + 1}
+              {index === 0 && ' (内側)'}
+              {index === strokes.length - 1 && index > 0 && ' (外側)'}
+            </span>
+            <div className="flex items-center">
+              <span className="mr-2">{stroke.width}px</span>
+              <button className={iconButton} title="内側へ" disabled={index === 0}
+                onClick={() => onChange(moveItem(strokes, index, -1))}>
+                <ChevronUp size={12} />
+              </button>
+              <button className={iconButton} title="外側へ" disabled={index === strokes.length - 1}
+                onClick={() => onChange(moveItem(strokes, index, 1))}>
+                <ChevronDown size={12} />
+              </button>
+              <button className={`${iconButton} hover:text-red-500`} title="削除"
+                onClick={() => onChange(strokes.filter((_, i) => i !== index))}>
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            {stroke.colorType === 'solid' ? (
+              <input type="color" value={stroke.color} onChange={(e) => update(index, { color: e.target.value })} className="w-6 h-6 rounded bg-transparent" />
+            ) : (
+              <div className="w-6 h-6 rounded border border-slate-600" style={{ background: gradientToCss(stroke.gradient) }} />
+            )}
+            <input
+              type="range" min="0" max="60" value={stroke.width}
+              onChange={(e) => update(index, { width: Number(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 accent-blue-500"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex flex-1 bg-slate-950 rounded-lg p-0.5 border border-slate-800">
+              <button onClick={() => update(index, { colorType: 'solid' })} className={toggleButton(stroke.colorType === 'solid')}>Solid</button>
+              <button onClick={() => update(index, { colorType: 'gradient' })} className={toggleButton(stroke.colorType === 'gradient')}>Gradient</button>
+            </div>
+            <select
+              value={stroke.join}
+              onChange={(e) => update(index, { join: e.target.value as StrokeEntry['join'] })}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-[10px] text-white focus:outline-none focus:border-blue-500"
+              title="角の形"
+            >
+              <option value="round">Round</option>
+              <option value="miter">Miter</option>
+              <option value="bevel">Bevel</option>
+            </select>
+          </div>
+
+          {stroke.colorType === 'gradient' && (
+            <GradientEditor compact gradient={stroke.gradient} onChange={(gradient) => update(index, { gradient })} />
+          )}
+
+          <div className="flex items-center gap-2 text-[10px] text-slate-400">
+            <span className="w-12">Opacity</span>
+            <input type="range" min="0" max="1" step="0.05" value={stroke.opacity}
+              onChange={(e) => update(index, { opacity: Number(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+            <span className="w-8 text-right">{Math.round(stroke.opacity * 100)}%</span>
+          </div>
+
+          <div className="flex items-center gap-2 text-[10px] text-slate-400">
+            <span className="w-12">Blur</span>
+            <input type="range" min="0" max="40" value={stroke.blur}
+              onChange={(e) => update(index, { blur: Number(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 accent-blue-500" />
+            <span className="w-8 text-right">{stroke.blur}px</span>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+import { AlignCenter, AlignLeft, AlignRight, Maximize } from 'lucide-react';
+import type { AutoFit, TextStyle } from '../render/types';
+import Slider from './Slider';
+
+type LayoutFields = Pick<TextStyle, 'letterSpacing' | 'textAlign' | 'lineScales' | 'autoFit' | 'writingMode'>;
+
+type Props = {
+  style: LayoutFields;
+  lines: string[];              // 記法を取り除いた行（行ごとの倍率のラベルに使う）
+  canvasSize: { width: number; height: number };
+  onChange: (patch: Partial<LayoutFields>) => void;
+};
+
+const toggleButton = (active: boolean) => `flex-1 flex justify-center px-2 py-1 text-[10px] rounded-md transition-all duration-200 ${
+  active ? 'bg-blue-600 text-white shadow-md' : 'bg-transparent text-slate-500 hover:text-slate-300 hover:bg-slate-900'
+}`;
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors';
+const numberInput = 'w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none';
+
+// 自動フィットの枠をキャンバスに合わせるときの余白（片側）
+const FIT_MARGIN = 40;
+
+// 字間・揃え・行ごとの倍率・自動フィットの編集
+export default function TextLayoutEditor({ style, lines, canvasSize, onChange }: Props) {
+  const vertical = style.writingMode === 'vertical';
+  const aligns = [
+    { value: 'start', icon: AlignLeft, title: vertical ? '上揃え' : '左揃え' },
+    { value: 'center', icon: AlignCenter, title: '中央揃え' },
+    { value: 'end', icon: AlignRight, title: vertical ? '下揃え' : '右揃え' },
+  ] as const;
+
+  const updateFit = (patch: Partial<AutoFit>) => onChange({ autoFit: { ...style.autoFit, ...patch } });
+  const updateLineScale = (index: number, value: number) => {
+    const next = lines.map((_, i) => style.lineScales[i] ?? 1);
+    next[index] = value;
+    onChange({ lineScales: next });
+  };
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Spacing / Fit</h3>
+
+      <Slider label="Tracking" value={style.letterSpacing} min={-0.5} max={1} step={0.01} unit="%"
+        onChange={(letterSpacing) => onChange({ letterSpacing })} />
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">Align</span>
+        <div className="flex w-32 bg-slate-950 rounded-lg p-1 border border-slate-800">
+          {aligns.map(({ value, icon: Icon, title }) => (
+            <button key={value} onClick={() => onChange({ textAlign: value })}
+              className={toggleButton(style.textAlign === value)} title={title}>
+              <Icon size={12} className={vertical ? 'rotate-90' : ''} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {lines.length > 1 && (
+        <div className="space-y-2">
+          <label className="text-[10px] text-slate-500 uppercase font-bold">Line Scale</label>
+          {lines.map((line, index) => (
+            <Slider key={index} label={line.trim() ? line.slice(0, 4) : `${index + 1}行目`}
+              value={style.lineScales[index] ?? 1} min={0.2} max={3} step={0.05} unit="%"
+              onChange={(value) => updateLineScale(index, value)} />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-400">Auto Fit</span>
+          <div className="flex w-40 bg-slate-950 rounded-lg p-1 border border-slate-800">
+            {(['off', 'lines', 'block'] as const).map(mode => (
+              <button key={mode} onClick={() => updateFit({ mode })} className={toggleButton(style.autoFit.mode === mode)}>
+                {{ off: 'Off', lines: '行ごと', block: '全体' }[mode]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {style.autoFit.mode !== 'off' && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <label className="text-[10px] text-slate-500">Max W</label>
+              <input type="number" min={1} value={style.autoFit.maxWidth} className={numberInput}
+                onChange={(e) => updateFit({ maxWidth: Math.max(1, Number(e.target.value)) })} />
+            </div>
+            <div className="flex-1 space-y-1">
+              <label className="text-[10px] text-slate-500">Max H</label>
+              <input type="number" min={1} value={style.autoFit.maxHeight} className={numberInput}
+                onChange={(e) => updateFit({ maxHeight: Math.max(1, Number(e.target.value)) })} />
+            </div>
+            <button className={iconButton} title="キャンバスに合わせる"
+              onClick={() => updateFit({
+                maxWidth: Math.max(1, canvasSize.width - FIT_MARGIN * 2),
+                maxHeight: Math.max(1, canvasSize.height - FIT_MARGIN * 2),
+              })}>
+              <Maximize size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,68 @@
+import { RotateCcw } from 'lucide-react';
+import type { TextTransform, WarpType } from '../render/types';
+import { DEFAULT_TRANSFORM } from '../model/layers';
+import Slider from './Slider';
+
+type Props = {
+  transform: TextTransform;
+  onChange: (transform: TextTransform) => void;
+};
+
+const WARPS: { type: WarpType; label: string }[] = [
+  { type: 'none', label: 'なし' },
+  { type: 'arcUp', label: '上弧' },
+  { type: 'arcDown', label: '下弧' },
+  { type: 'wave', label: '波' },
+  { type: 'bulge', label: '膨張' },
+  { type: 'perspective', label: '遠近' },
+];
+
+const iconButton = 'p-1 text-slate-500 hover:text-white hover:bg-slate-700 rounded transition-colors';
+
+// 回転・傾き・拡大縮小と、文字ごとの変形（warp）の編集
+export default function TransformEditor({ transform, onChange }: Props) {
+  const update = (patch: Partial<TextTransform>) => onChange({ ...transform, ...patch });
+
+  return (
+    <section className="space-y-4 border-t border-slate-700 pt-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Transform</h3>
+        <button onClick={() => onChange(DEFAULT_TRANSFORM)} className={iconButton} title="変形をリセット">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <Slider label="Rotate" value={transform.rotation} min={-180} max={180} unit="°"
+          onChange={(rotation) => update({ rotation })} />
+        <Slider label="Skew" value={transform.skewX} min={-60} max={60} unit="°"
+          onChange={(skewX) => update({ skewX })} />
+        <Slider label="Scale X" value={transform.scaleX} min={0.2} max={3} step={0.05} unit="%"
+          onChange={(scaleX) => update({ scaleX })} />
+        <Slider label="Scale Y" value={transform.scaleY} min={0.2} max={3} step={0.05} unit="%"
+          onChange={(scaleY) => update({ scaleY })} />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-slate-400">Warp</label>
+        <select
+          value={transform.warp}
+          onChange={(e) => {
+            const warp = e.target.value as WarpType;
+            // 負の強さは perspective だけで使う
+            update({ warp, warpStrength: warp === 'perspective' ? transform.warpStrength : Math.abs(transform.warpStrength) });
+          }}
+          className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-blue-500"
+        >
+          {WARPS.map(warp => (
+            <option key={warp.type} value={warp.type}>{warp.label}</option>
+          ))}
+        </select>
+        <Slider label="Strength" value={transform.warpStrength}
+          min={transform.warp === 'perspective' ? -100 : 0} max={100} unit=""
+          disabled={transform.warp === 'none'}
+          onChange={(warpStrength) => update({ warpStrength })} />
+      </div>
+    </section>
+  );
+}
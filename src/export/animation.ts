@@ -0,0 +1,81 @@
+import { animateLayers, frameCount, type AnimationSettings } from '../model/animation';
+import { renderBackground } from '../render/background';
+import { renderLayers } from '../render/renderDecoratedText';
+import type { RenderableLayer } from '../render/types';
+import { createApngEncoder } from './apng';
+import { createGifEncoder } from './gif';
+import type { ExportBackground } from './png';
+import type { ExportSettings } from './settings';
+
+// アニメーションの書き出し：1 コマずつ描いて画素を取り出し、エンコーダーに渡す
+// 全コマを溜めずに順に圧縮するので、長いアニメーションでもメモリを使いすぎない
+
+export type AnimationFormat = 'apng' | 'gif';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string }> = {
+  apng: { label: 'APNG', extension: '.png' },
+  gif: { label: 'GIF', extension: '.gif' },
+};
+
+// 書き出すときの大きさ（出力サイズ × 倍率 × アニメーションの縮小率）
+export function animationSize(settings: ExportSettings, animation: AnimationSettings) {
+  const scale = settings.multiplier * animation.scale;
+  return {
+    width: Math.max(1, Math.round(settings.width * scale)),
+    height: Math.max(1, Math.round(settings.height * scale)),
+    scale,
+  };
+}
+
+const sameFrame = (a: ImageData, b: ImageData) => {
+  const x = new Uint32Array(a.data.buffer);
+  const y = new Uint32Array(b.data.buffer);
+  for (let i = 0; i < x.length; i++) if (x[i] !== y[i]) return false;
+  return true;
+};
+
+// onProgress は描き終えたコマ数。isCancelled が true を返したら途中でやめて null を返す
+export async function renderAnimation(
+  layers: (RenderableLayer & { id: string })[],
+  animation: AnimationSettings,
+  settings: ExportSettings,
+  format: AnimationFormat,
+  background: ExportBackground | undefined,
+  onProgress: (done: number, total: number) => void,
+  isCancelled: () => boolean,
+): Promise<Blob | null> {
+  const { width, height, scale } = animationSize(settings, animation);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D コンテキストを取得できませんでした');
+
+  const create = format === 'apng' ? createApngEncoder : createGifEncoder;
+  const encoder = create(width, height, animation.fps, animation.loop);
+  const options = { width, height, scale };
+  const total = frameCount(animation);
+
+  // 直前のコマと同じ画像（効果が終わって止まっている間など）は 1 枚にまとめて表示時間を延ばす
+  let pending: { image: ImageData; length: number } | null = null;
+  for (let index = 0; index < total; index++) {
+    if (isCancelled()) return null;
+    ctx.clearRect(0, 0, width, height);
+    if (background) renderBackground(ctx, background.background, background.image, options);
+    renderLayers(ctx, animateLayers(layers, animation, index / animation.fps), options);
+    const image = ctx.getImageData(0, 0, width, height);
+
+    if (pending && sameFrame(pending.image, image)) {
+      pending.length++;
+    } else {
+      if (pending) await encoder.addFrame(pending.image, pending.length);
+      pending = { image, length: 1 };
+    }
+    onProgress(index + 1, total);
+    // 進み具合を画面に出せるよう、1 コマごとにブラウザへ処理を返す
+    await new Promise(resolve => setTimeout(resolve));
+  }
+  if (isCancelled()) return null;
+  if (pending) await encoder.addFrame(pending.image, pending.length);
+  return encoder.finish();
+}
@@ -0,0 +1,127 @@
+import { crc32 } from './zip';
+
+// ブラウザだけで APNG（アニメーション PNG）を組み立てる
+// 透明度をそのまま残せる。2 コマ目以降は前のコマから変わった範囲だけを入れて小さくする
+
+const SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+function chunk(type: string, body: Uint8Array) {
+  const bytes = new Uint8Array(12 + body.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(body, 8);
+  view.setUint32(8 + body.length, crc32(bytes.subarray(4, 8 + body.length)));
+  return bytes;
+}
+
+// 前のコマと違う画素を含む最小の矩形（同じなら null）
+function changedRect(prev: Uint8ClampedArray, next: Uint8ClampedArray, width: number, height: number): Rect | null {
+  const a = new Uint32Array(prev.buffer, prev.byteOffset, width * height);
+  const b = new Uint32Array(next.buffer, next.byteOffset, width * height);
+  let top = height;
+  let bottom = -1;
+  let left = width;
+  let right = -1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let x = 0;
+    while (x < width && a[row + x] === b[row + x]) x++;
+    if (x === width) continue;
+    let end = width - 1;
+    while (a[row + end] === b[row + end]) end--;
+    top = Math.min(top, y);
+    bottom = y;
+    left = Math.min(left, x);
+    right = Math.max(right, end);
+  }
+  return bottom < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// 矩形の範囲を行ごとに Paeth フィルターを掛けて並べ、zlib 形式で圧縮する
+async function compressRect(data: Uint8ClampedArray, width: number, rect: Rect) {
+  const stride = rect.width * 4;
+  const raw = new Uint8Array((stride + 1) * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = ((rect.y + y) * width + rect.x) * 4;
+    const above = start - width * 4;
+    const out = y * (stride + 1);
+    raw[out] = 4;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= 4 ? data[start + i - 4] : 0;
+      const up = y > 0 ? data[above + i] : 0;
+      const upLeft = y > 0 && i >= 4 ? data[above + i - 4] : 0;
+      raw[out + 1 + i] = data[start + i] - paeth(left, up, upLeft);
+    }
+  }
+  const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// plays は再生回数（0 で繰り返し続ける）。コマの長さは 1 / fps 秒単位
+export function createApngEncoder(width: number, height: number, fps: number, plays: number) {
+  const frames: Uint8Array[] = [];
+  let frameCount = 0;
+  let sequence = 0;
+  let previous: Uint8ClampedArray | null = null;
+
+  return {
+    // length コマ分表示する 1 枚を足す
+    async addFrame(image: ImageData, length: number) {
+      // 変わっていなければ左上の 1 画素だけ入れ直す（fcTL の範囲は 1 画素以上必要）
+      const area = !previous ? { x: 0, y: 0, width, height }
+        : changedRect(previous, image.data, width, height) ?? { x: 0, y: 0, width: 1, height: 1 };
+
+      const control = new Uint8Array(26);
+      const view = new DataView(control.buffer);
+      view.setUint32(0, sequence++);
+      view.setUint32(4, area.width);
+      view.setUint32(8, area.height);
+      view.setUint32(12, area.x);
+      view.setUint32(16, area.y);
+      view.setUint16(20, length);
+      view.setUint16(22, fps);
+      control[24] = 0;                        // dispose: そのまま残す
+      control[25] = 0;                        // blend: 範囲内を置き換える（透明に戻る画素もあるため）
+      frames.push(chunk('fcTL', control));
+
+      const compressed = await compressRect(image.data, width, area);
+      if (frameCount === 0) {
+        frames.push(chunk('IDAT', compressed));
+      } else {
+        const body = new Uint8Array(4 + compressed.length);
+        new DataView(body.buffer).setUint32(0, sequence++);
+        body.set(compressed, 4);
+        frames.push(chunk('fdAT', body));
+      }
+      frameCount++;
+      previous = new Uint8ClampedArray(image.data);
+    },
+
+    finish() {
+      const header = new Uint8Array(13);
+      const hv = new DataView(header.buffer);
+      hv.setUint32(0, width);
+      hv.setUint32(4, height);
+      header[8] = 8;                          // 8 bit
+      header[9] = 6;                          // RGBA
+      const control = new Uint8Array(8);
+      const cv = new DataView(control.buffer);
+      cv.setUint32(0, frameCount);
+      cv.setUint32(4, plays);
+      return new Blob([
+        new Uint8Array(SIGNATURE), chunk('IHDR', header), chunk('acTL', control), ...frames, chunk('IEND', new Uint8Array(0)),
+      ] as BlobPart[], { type: 'image/png' });
+    },
+  };
+}
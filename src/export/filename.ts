@@ -0,0 +1,38 @@
+import { fillFilenameTemplate } from '../model/batch';
+import type { TextLayer } from '../model/layers';
+import { plainText } from '../render/markup';
+import type { ExportSettings } from './settings';
+
+// 1 枚ずつ書き出すときのファイル名（拡張子なし）
+// テンプレートの {text} {preset} {width} {height} {date} を埋める。空の項目で続いた同じ区切りは 1 つにする
+
+const FALLBACK_NAME = 'decorated-text';
+const MAX_TEXT_LENGTH = 40;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const timestamp = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+const firstLine = (layer: TextLayer) => plainText(layer.text).split('\n').map(line => line.trim()).find(Boolean) ?? '';
+
+// 選択中のレイヤーに文字がなければ、表示中で文字のある一番上のレイヤーを使う
+function filenameLayer(layers: TextLayer[], selectedLayerId: string | null) {
+  const selected = layers.find(layer => layer.id === selectedLayerId);
+  if (selected && firstLine(selected)) return selected;
+  return [...layers].reverse().find(layer => layer.visible && firstLine(layer)) ?? null;
+}
+
+export function exportFilename(settings: ExportSettings, layers: TextLayer[], selectedLayerId: string | null, now = new Date()) {
+  const layer = filenameLayer(layers, selectedLayerId);
+  const values = {
+    text: layer ? [...firstLine(layer)].slice(0, MAX_TEXT_LENGTH).join('') : '',
+    preset: layer?.presetName ?? '',
+    width: String(settings.width * settings.multiplier),
+    height: String(settings.height * settings.multiplier),
+    date: timestamp(now),
+  };
+  const name = fillFilenameTemplate(settings.filenameTemplate, values)
+    .replace(/([-_ ])\1+/g, '$1')
+    .replace(/^[-_ .]+|[-_ .]+$/g, '');
+  return name || FALLBACK_NAME;
+}
@@ -0,0 +1,209 @@
+// ブラウザだけで アニメーション GIF を組み立てる
+// コマごとに 255 色の色表を作り（0 番は透明）、半透明は不透明度 50% を境に透明か不透明かに分ける
+// GIF の表示時間は 1/100 秒単位なので、端数はコマをまたいで繰り越してずれが溜まらないようにする
+
+const TRANSPARENT_INDEX = 0;
+const MAX_COLORS = 255;
+const ALPHA_THRESHOLD = 128;
+
+// RGB を各 5 bit に落とした値（色数を数える単位）
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+type ColorBox = { keys: number[]; count: number; channel: number; range: number };
+
+const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31;
+
+// 箱の画素数と、一番広がっている色の向き（R / G / B）
+function makeBox(keys: number[], histogram: Uint32Array): ColorBox {
+  const box = { keys, count: 0, channel: 0, range: -1 };
+  for (const key of keys) box.count += histogram[key];
+  for (let c = 0; c < 3; c++) {
+    let min = 31;
+    let max = 0;
+    for (const key of keys) {
+      const value = channel(key, c);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    if (max - min > box.range) {
+      box.channel = c;
+      box.range = max - min;
+    }
+  }
+  return box;
+}
+
+// メディアンカット：色の広がり × 画素数が一番大きい箱を、画素数の中央で 2 つに割ることを繰り返す
+function buildPalette(data: Uint8ClampedArray) {
+  const histogram = new Uint32Array(1 << 15);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= ALPHA_THRESHOLD) histogram[colorKey(data[i], data[i + 1], data[i + 2])]++;
+  }
+  const keys: number[] = [];
+  histogram.forEach((count, key) => {
+    if (count > 0) keys.push(key);
+  });
+
+  const boxes = keys.length > 0 ? [makeBox(keys, histogram)] : [];
+  while (boxes.length < MAX_COLORS) {
+    let target = -1;
+    let score = 0;
+    boxes.forEach((box, index) => {
+      if (box.keys.length > 1 && box.range * box.count > score) {
+        score = box.range * box.count;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    box.keys.sort((a, b) => channel(a, box.channel) - channel(b, box.channel));
+    let half = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      half += histogram[box.keys[split - 1]];
+      if (half * 2 >= box.count) break;
+    }
+    boxes.splice(target, 1, makeBox(box.keys.slice(0, split), histogram), makeBox(box.keys.slice(split), histogram));
+  }
+
+  // 箱の中の色を数で重み付けして平均する
+  return boxes.map(box => {
+    const sum = [0, 0, 0];
+    for (const key of box.keys) {
+      for (let c = 0; c < 3; c++) sum[c] += (channel(key, c) * 8 + 4) * histogram[key];
+    }
+    return sum.map(value => Math.round(value / box.count));
+  });
+}
+
+// 画素を色番号に置き換える（5 bit 単位で一番近い色を覚えておく）
+function indexPixels(data: Uint8ClampedArray, palette: number[][]) {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  const indices = new Uint8Array(data.length / 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] < ALPHA_THRESHOLD) {
+      indices[p] = TRANSPARENT_INDEX;
+      continue;
+    }
+    const key = colorKey(data[i], data[i + 1], data[i + 2]);
+    if (cache[key] < 0) {
+      let best = 0;
+      let bestDistance = Infinity;
+      palette.forEach(([r, g, b], index) => {
+        const distance = (r - data[i]) ** 2 + (g - data[i + 1]) ** 2 + (b - data[i + 2]) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = index;
+        }
+      });
+      cache[key] = best + 1;                  // 0 番は透明に使うので 1 つずらす
+    }
+    indices[p] = cache[key];
+  }
+  return indices;
+}
+
+// 可変長の LZW 圧縮（最小コード長 8 bit）。255 バイトずつのブロックに区切って返す
+function lzwEncode(indices: Uint8Array) {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      output.push(buffer & 0xFF);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode < 4096) {
+      // 今のコード長で表せない番号を使う前に 1 bit 増やす
+      if (nextCode === 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    } else {
+      // 表がいっぱいになったら作り直す
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+  write(prefix);
+  if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+  write(endCode);
+  if (bits > 0) output.push(buffer & 0xFF);
+
+  const blocks: number[] = [minCodeSize];
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return new Uint8Array(blocks);
+}
+
+const uint16 = (value: number) => [value & 0xFF, (value >> 8) & 0xFF];
+
+// plays は再生回数（0 で繰り返し続ける）。コマの長さは 1 / fps 秒単位
+export function createGifEncoder(width: number, height: number, fps: number, plays: number) {
+  const parts: Uint8Array[] = [];
+  const header = [
+    ...'GIF89a'.split('').map(ch => ch.charCodeAt(0)),
+    ...uint16(width), ...uint16(height), 0, 0, 0,    // 全体の色表なし
+  ];
+  // NETSCAPE2.0 拡張の回数は「最初の 1 回の後に繰り返す回数」。1 回だけならこの拡張を付けない
+  if (plays !== 1) {
+    header.push(0x21, 0xFF, 0x0B, ...'NETSCAPE2.0'.split('').map(ch => ch.charCodeAt(0)),
+      0x03, 0x01, ...uint16(plays === 0 ? 0 : plays - 1), 0x00);
+  }
+  parts.push(new Uint8Array(header));
+  let elapsed = 0;                            // コマ数
+  let written = 0;                            // 1/100 秒
+
+  return {
+    // length コマ分表示する 1 枚を足す
+    async addFrame(image: ImageData, length: number) {
+      elapsed += length;
+      const end = Math.round((elapsed * 100) / fps);
+      const delay = end - written;
+      written = end;
+
+      const palette = buildPalette(image.data);
+      const table = new Uint8Array(256 * 3);
+      palette.forEach(([r, g, b], index) => table.set([r, g, b], (index + 1) * 3));
+      parts.push(new Uint8Array([
+        0x21, 0xF9, 0x04,
+        (2 << 2) | 1,                         // 次のコマの前に消す・透明色あり
+        ...uint16(delay), TRANSPARENT_INDEX, 0x00,
+        0x2C, 0, 0, 0, 0, ...uint16(width), ...uint16(height),
+        0x80 | 7,                             // このコマの色表（256 色）
+      ]), table, lzwEncode(indexPixels(image.data, palette)));
+    },
+
+    finish() {
+      return new Blob([...parts, new Uint8Array([0x3B])] as BlobPart[], { type: 'image/gif' });
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { renderBackground } from '../render/background';
+import { plainText } from '../render/markup';
+import { measureDrawnBounds, renderLayers } from '../render/renderDecoratedText';
+import type { Background, Rect, RenderableLayer } from '../render/types';
+import { IMAGE_FORMATS, type ExportSettings } from './settings';
+
+// 書き出しに含める背景と、読み込み済みの画像（画像以外の背景では null）
+export type ExportBackground = {
+  background: Background;
+  image: CanvasImageSource | null;
+};
+
+// 書き出し用のキャンバスを作り、出力サイズ × 倍率で描画する
+// area を渡すとその範囲（出力サイズ × 倍率の px）だけを切り出し、matte を渡すと一番下をその色で塗る
+export function renderExportCanvas(layers: RenderableLayer[], settings: ExportSettings, background?: ExportBackground,
+  crop: { area?: Rect; matte?: string } = {}) {
+  const width = settings.width * settings.multiplier;
+  const height = settings.height * settings.multiplier;
+  const area = crop.area ?? { x: 0, y: 0, width, height };
+  const canvas = document.createElement('canvas');
+  canvas.width = area.width;
+  canvas.height = area.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D コンテキストを取得できませんでした');
+
+  if (crop.matte) {
+    ctx.fillStyle = crop.matte;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.translate(-area.x, -area.y);
+  const options = {
+    width,
+    height,
+    scale: settings.multiplier,
+  };
+  if (background) renderBackground(ctx, background.background, background.image, options);
+  renderLayers(ctx, layers, options);
+  return canvas;
+}
+
+// 表示中のレイヤーが描かれる範囲に余白を足したもの（出力サイズ × 倍率の px、画面の外は含めない）
+// 何も描かれないときは null
+export function trimArea(layers: RenderableLayer[], settings: ExportSettings): Rect | null {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return null;
+  const width = settings.width * settings.multiplier;
+  const height = settings.height * settings.multiplier;
+  const options = { width, height, scale: settings.multiplier };
+  const rects = layers
+    .filter(layer => layer.visible && plainText(layer.text).trim())
+    .map(layer => measureDrawnBounds(ctx, layer, options));
+  if (rects.length === 0) return null;
+
+  const padding = settings.trimPadding * settings.multiplier;
+  const left = Math.max(0, Math.floor(Math.min(...rects.map(rect => rect.x)) - padding));
+  const top = Math.max(0, Math.floor(Math.min(...rects.map(rect => rect.y)) - padding));
+  const right = Math.min(width, Math.ceil(Math.max(...rects.map(rect => rect.x + rect.width)) + padding));
+  const bottom = Math.min(height, Math.ceil(Math.max(...rects.map(rect => rect.y + rect.height)) + padding));
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// 書き出し設定の形式・品質・切り出しで画像にする
+// ブラウザが形式に対応していないと PNG になるので、使う側は blob.type で確かめる
+export function renderExportImage(layers: RenderableLayer[], settings: ExportSettings, background?: ExportBackground) {
+  const format = IMAGE_FORMATS[settings.format];
+  const area = settings.trim ? trimArea(layers, settings) ?? undefined : undefined;
+  const canvas = renderExportCanvas(layers, settings, background, { area, matte: format.alpha ? undefined : settings.matteColor });
+  return canvasToBlob(canvas, format.mimeType, format.lossy ? settings.quality : undefined);
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('画像の生成に失敗しました'));
+    }, type, quality);
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,85 @@
+// 書き出しサイズの設定
+// スタイルや位置はすべて「出力サイズ（倍率 1x）」のピクセルで保持し、
+// プレビューは縮小、書き出しは倍率を掛けて描画する
+
+export type ExportSizePresetId = 'thumbnail' | 'fullhd' | 'square' | 'vertical' | 'custom';
+
+export type ExportSizePreset = {
+  id: ExportSizePresetId;
+  label: string;
+  width: number;
+  height: number;
+};
+
+export const EXPORT_SIZE_PRESETS: ExportSizePreset[] = [
+  { id: 'thumbnail', label: 'サムネイル 1280×720', width: 1280, height: 720 },
+  { id: 'fullhd', label: 'Full HD 1920×1080', width: 1920, height: 1080 },
+  { id: 'square', label: '正方形 1080×1080', width: 1080, height: 1080 },
+  { id: 'vertical', label: '縦長 1080×1920', width: 1080, height: 1920 },
+];
+
+export const EXPORT_MULTIPLIERS = [1, 2, 4] as const;
+export type ExportMultiplier = (typeof EXPORT_MULTIPLIERS)[number];
+
+// SVG 書き出し時の同梱フォントの扱い
+export type SvgFontMode = 'embed' | 'reference' | 'none';
+
+// 画像の形式。透明にできない形式（JPEG）は matteColor で下地を塗ってから書き出す
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+export const IMAGE_FORMATS: Record<ImageFormat, { label: string; mimeType: string; extension: string; alpha: boolean; lossy: boolean }> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: '.png', alpha: true, lossy: false },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: '.jpg', alpha: false, lossy: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: '.webp', alpha: true, lossy: true },
+};
+
+// ファイル名の {text} は選択中（なければ一番上）のレイヤーの 1 行目、{preset} はそのレイヤーに最後に適用したプリセット
+export const DEFAULT_EXPORT_FILENAME = '{text}-{preset}';
+
+export type ExportSettings = {
+  sizePreset: ExportSizePresetId;
+  width: number;                // 倍率 1x での幅
+  height: number;               // 倍率 1x での高さ
+  multiplier: ExportMultiplier;
+  svgFonts: SvgFontMode;
+  format: ImageFormat;
+  quality: number;              // 0〜1（JPEG / WebP のみ）
+  matteColor: string;           // 透明にできない形式の下地
+  trim: boolean;                // 描かれている範囲（縁取り・影を含む）だけを切り出す
+  trimPadding: number;          // 切り出すときの余白（倍率 1x での px）
+  filenameTemplate: string;
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  sizePreset: 'fullhd',
+  width: 1920,
+  height: 1080,
+  multiplier: 1,
+  svgFonts: 'embed',
+  format: 'png',
+  quality: 0.92,
+  matteColor: '#ffffff',
+  trim: false,
+  trimPadding: 16,
+  filenameTemplate: DEFAULT_EXPORT_FILENAME,
+};
+
+export const MAX_TRIM_PADDING = 200;
+
+// カスタムサイズの上下限（ブラウザのキャンバス上限を超えないように）
+export const MIN_EXPORT_SIDE = 16;
+export const MAX_EXPORT_SIDE = 8192;
+
+export function clampExportSide(value: number) {
+  if (!Number.isFinite(value)) return MIN_EXPORT_SIDE;
+  return Math.min(MAX_EXPORT_SIDE, Math.max(MIN_EXPORT_SIDE, Math.round(value)));
+}
+
+// 縦横比を保ったまま box に収まるサイズを返す（WPF の Uniform 相当）
+export function fitSize(width: number, height: number, boxWidth: number, boxHeight: number) {
+  const ratio = Math.min(boxWidth / width, boxHeight / height);
+  return {
+    width: Math.max(1, Math.floor(width * ratio)),
+    height: Math.max(1, Math.floor(height * ratio)),
+  };
+}
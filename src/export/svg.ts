@@ -0,0 +1,68 @@
+import { findBundledFaces } from '../fonts/presetFonts';
+import { primaryFontName } from '../fonts/fontAvailability';
+import { FONT_MIME_TYPES, type CustomFont } from '../fonts/customFonts';
+import { ensureFontsLoaded } from '../fonts/loadFonts';
+import { canvasMeasurer } from '../render/layout';
+import { renderLayersSvg, type SvgFontFace } from '../render/svg';
+import type { Background, RenderableLayer } from '../render/types';
+import type { ExportSettings } from './settings';
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// 同梱フォントを SVG に埋め込む（embed）か、絶対 URL で参照する（reference）
+// 読み込んだフォントは参照できる URL がないので、embed のときだけ書き込む
+async function resolveFontFaces(fontFamilies: string[], mode: ExportSettings['svgFonts'], customFonts: CustomFont[]): Promise<SvgFontFace[]> {
+  if (mode === 'none') return [];
+
+  const names = new Set(fontFamilies.map(primaryFontName));
+  const custom = mode === 'embed'
+    ? await Promise.all(customFonts.filter(font => names.has(font.name)).map(async font => ({
+      family: font.name,
+      src: await blobToDataUrl(new Blob([font.data], { type: FONT_MIME_TYPES[font.format] })),
+      format: font.format,
+    })))
+    : [];
+
+  // 複数のレイヤーが同じフォントを使っていても 1 回だけ書き込む
+  const faces = new Map(fontFamilies.flatMap(findBundledFaces).map(face => [face.name, face]));
+
+  const bundled = await Promise.all([...faces.values()].map(async (face) => {
+    const url = new URL(face.file, window.location.href).href;
+    if (mode === 'reference') {
+      return { family: face.name, src: url, format: face.format };
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`フォントの読み込みに失敗しました: ${face.file}`);
+    const blob = new Blob([await response.arrayBuffer()], { type: `font/${face.format}` });
+    return { family: face.name, src: await blobToDataUrl(blob), format: face.format };
+  }));
+  return [...bundled, ...custom];
+}
+
+// ベクターなので倍率は掛けず、出力サイズ（1x）をそのまま viewBox にする
+// background は書き出しに含めるときだけ渡す（画像は data URI のまま埋め込む）
+export async function renderExportSvg(layers: RenderableLayer[], settings: ExportSettings, background?: Background, customFonts: CustomFont[] = []) {
+  const fontFamilies = layers.filter(layer => layer.visible).map(layer => layer.style.fontFamily);
+  const fontFaces = await resolveFontFaces(fontFamilies, settings.svgFonts, customFonts);
+
+  // 文字位置やグラデーションの範囲は、ブラウザで読み込んだフォントで測る
+  await ensureFontsLoaded(layers.map(layer => layer.style));
+  const ctx = document.createElement('canvas').getContext('2d');
+
+  const svg = renderLayersSvg(layers, {
+    width: settings.width,
+    height: settings.height,
+    fontFaces,
+    measureText: ctx ? canvasMeasurer(ctx) : undefined,
+    background,
+  });
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
@@ -0,0 +1,125 @@
+import type { FontItem } from './presetFonts';
+
+// ユーザーが読み込んだフォントファイル（IndexedDB に保存し、次回の起動時にも登録する）
+
+export type CustomFont = {
+  id: string;
+  name: string;                 // font-family 名（ファイル名から作り、ほかのフォントと重ならないようにする）
+  fileName: string;
+  format: CustomFontFormat;
+  data: ArrayBuffer;
+  addedAt: number;
+};
+
+export type CustomFontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+export const CUSTOM_FONT_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+export const FONT_MIME_TYPES: Record<CustomFontFormat, string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+const DB_NAME = 'text-decorator';
+const DB_VERSION = 1;
+const STORE = 'fonts';
+
+// ファイル先頭の識別子で形式を見分ける（拡張子だけを信じない）
+function detectFormat(data: ArrayBuffer): CustomFontFormat | null {
+  if (data.byteLength < 4) return null;
+  const tag = new DataView(data).getUint32(0);
+  switch (tag) {
+    case 0x00010000:
+    case 0x74727565:            // 'true'（古い Mac の TrueType）
+      return 'truetype';
+    case 0x4F54544F:            // 'OTTO'
+      return 'opentype';
+    case 0x774F4646:            // 'wOFF'
+      return 'woff';
+    case 0x774F4632:            // 'wOF2'
+      return 'woff2';
+    default:
+      return null;
+  }
+}
+
+// ctx.font / SVG の font-family に使う文字列（名前は引用符で囲み、読めないときは sans-serif）
+export const customFontFamily = (font: Pick<CustomFont, 'name'>) =>
+  `'${font.name.replace(/['\\]/g, '')}', sans-serif`;
+
+export const customFontItem = (font: CustomFont): FontItem => ({ label: font.name, family: customFontFamily(font) });
+
+// ファイルを検査して CustomFont にする。名前が重なれば (2), (3)… を付ける
+export async function readFontFile(file: File, takenNames: Iterable<string>): Promise<CustomFont> {
+  const data = await file.arrayBuffer();
+  const format = detectFormat(data);
+  if (!format) throw new Error(`${file.name} は TTF / OTF / WOFF / WOFF2 のフォントファイルではありません`);
+
+  const base = file.name.replace(/\.[^.]+$/, '').replace(/['\\]/g, '').trim() || 'Custom Font';
+  const taken = new Set(takenNames);
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base} (${n})`;
+
+  return { id: `font-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name, fileName: file.name, format, data, addedAt: Date.now() };
+}
+
+// ---- FontFace への登録 ----
+
+const registered = new Map<string, FontFace>();
+
+// 壊れたファイルは load で reject される
+export async function registerCustomFont(font: CustomFont) {
+  if (registered.has(font.id)) return;
+  const face = new FontFace(font.name, font.data);
+  await face.load();
+  document.fonts.add(face);
+  registered.set(font.id, face);
+}
+
+export function unregisterCustomFont(id: string) {
+  const face = registered.get(id);
+  if (!face) return;
+  document.fonts.delete(face);
+  registered.delete(id);
+}
+
+// ---- IndexedDB ----
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// 1 回のトランザクションで store を操作し、完了を待つ
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadStoredFonts(): Promise<CustomFont[]> {
+  const fonts = await withStore('readonly', store => store.getAll() as IDBRequest<CustomFont[]>);
+  return fonts.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export const storeFont = (font: CustomFont) => withStore('readwrite', store => store.put(font));
+export const deleteStoredFont = (id: string) => withStore('readwrite', store => store.delete(id));
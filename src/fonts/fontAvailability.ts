@@ -0,0 +1,42 @@
+import { presetFonts } from './presetFonts';
+
+// font-family の先頭のフォントが、この環境で実際に使えるかを調べる
+// システムフォントは一覧を取れないことが多いので、総称フォントと文字幅を比べて見分ける
+
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui'];
+const SAMPLE = 'mmmmmmmmmmlli WQ@ 永あア';
+const SAMPLE_SIZE = 72;
+const BASELINES = ['monospace', 'serif', 'sans-serif'];
+
+// 先頭のフォント名（引用符を外したもの）
+export function primaryFontName(fontFamily: string) {
+  return fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+}
+
+// プリセットの一覧にあればその表示名、なければ先頭のフォント名
+export function fontLabel(fontFamily: string) {
+  return presetFonts.find(f => f.family === fontFamily)?.label ?? primaryFontName(fontFamily);
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function measureWidth(font: string) {
+  if (measureContext === undefined) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return null;
+  measureContext.font = `${SAMPLE_SIZE}px ${font}`;
+  return measureContext.measureText(SAMPLE).width;
+}
+
+// 同梱フォント・総称フォントは常に使える扱い。調べられない環境でも使える扱いにする（誤った警告を出さない）
+export function isFontAvailable(fontFamily: string) {
+  const name = primaryFontName(fontFamily);
+  if (!name || GENERIC_FAMILIES.includes(name.toLowerCase())) return true;
+  if (presetFonts.some(f => f.face?.name === name)) return true;
+
+  const quoted = `"${name.replace(/"/g, '')}"`;
+  return BASELINES.some((generic) => {
+    const fallback = measureWidth(generic);
+    const width = measureWidth(`${quoted}, ${generic}`);
+    return fallback === null || width === null || width !== fallback;
+  });
+}
@@ -0,0 +1,120 @@
+import type { TextStyle } from '../render/types';
+import { customFontItem, type CustomFont } from './customFonts';
+import { presetFonts } from './presetFonts';
+
+// フォントブラウザに並べる一覧（同梱・読み込んだフォント・システムフォントを同じ形にそろえる）
+
+export type FontSource = 'standard' | 'uploaded' | 'system';
+
+// 同じファミリーの太さ・スタイル違い
+export type FontVariant = {
+  label: string;                // 表示名（Local Font Access API の style。なければ太さから作る）
+  weight: number;
+  style: TextStyle['fontStyle'];
+};
+
+export type FontEntry = {
+  family: string;               // TextStyle.fontFamily に入れる値
+  label: string;
+  source: FontSource;
+  variants: FontVariant[];      // 細い順。1 つだけなら選ぶ必要はない
+};
+
+// queryLocalFonts() が返す FontData のうち使う項目
+export type LocalFontData = {
+  family: string;
+  fullName: string;
+  postscriptName: string;
+  style: string;
+};
+
+const REGULAR: FontVariant = { label: 'Regular', weight: 400, style: 'normal' };
+
+// style 名の語から太さを決める（長い語から調べて ExtraBold を Bold と取り違えないようにする）
+const WEIGHT_WORDS: [RegExp, number][] = [
+  [/\b(hairline|thin)\b/, 100],
+  [/\b(extra|ultra)[\s-]?light\b/, 200],
+  [/\blight\b/, 300],
+  [/\b(semi|demi)[\s-]?bold\b/, 600],
+  [/\b(extra|ultra)[\s-]?bold\b/, 800],
+  [/\bmedium\b/, 500],
+  [/\bbold\b/, 700],
+  [/\bheavy\b/, 900],
+  [/\bblack\b/, 900],
+];
+
+// 'Bold Italic' → { weight: 700, style: 'italic' }。ヒラギノなどの W3・W6 は 100 倍する
+export function parseVariantStyle(label: string): FontVariant {
+  const key = label.toLowerCase();
+  const style = /\b(italic|oblique)\b/.test(key) ? 'italic' : 'normal';
+  const numbered = /\bw([1-9])\b/.exec(key);
+  const weight = numbered ? Number(numbered[1]) * 100 : WEIGHT_WORDS.find(([pattern]) => pattern.test(key))?.[1] ?? 400;
+  return { label, weight, style };
+}
+
+const compareVariants = (a: FontVariant, b: FontVariant) =>
+  a.weight - b.weight || (a.style === b.style ? 0 : a.style === 'normal' ? -1 : 1);
+
+// queryLocalFonts() の結果をファミリーごとにまとめる（同じ太さ・スタイルは 1 つにする）
+export function groupLocalFonts(fonts: LocalFontData[]): FontEntry[] {
+  const families = new Map<string, Map<string, FontVariant>>();
+  fonts.forEach((font) => {
+    const variant = parseVariantStyle(font.style || 'Regular');
+    const variants = families.get(font.family) ?? new Map<string, FontVariant>();
+    const key = `${variant.weight}-${variant.style}`;
+    if (!variants.has(key)) variants.set(key, variant);
+    families.set(font.family, variants);
+  });
+  return [...families]
+    .map(([family, variants]) => ({
+      family,
+      label: family,
+      source: 'system' as const,
+      variants: [...variants.values()].sort(compareVariants),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// 同梱・読み込んだフォントは太さ違いを持たないので Regular だけ
+export function buildFontCatalog(customFonts: CustomFont[], systemFonts: FontEntry[]): FontEntry[] {
+  const single = (source: FontSource) => ({ family, label }: { family: string; label: string }): FontEntry =>
+    ({ family, label, source, variants: [REGULAR] });
+  return [
+    ...presetFonts.map(single('standard')),
+    ...customFonts.map(customFontItem).map(single('uploaded')),
+    ...systemFonts,
+  ];
+}
+
+export const matchesFontQuery = (entry: FontEntry, query: string) => {
+  const key = query.trim().toLowerCase();
+  return !key || entry.label.toLowerCase().includes(key) || entry.family.toLowerCase().includes(key);
+};
+
+// ---- お気に入り・最近使ったフォント（localStorage に保存する） ----
+
+const FAVORITES_STORAGE_KEY = 'text-decorator-favorite-fonts';
+const RECENT_STORAGE_KEY = 'text-decorator-recent-fonts';
+const MAX_RECENT = 12;
+
+function loadList(key: string): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const value: unknown = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export const loadFavoriteFonts = () => loadList(FAVORITES_STORAGE_KEY);
+export const storeFavoriteFonts = (families: string[]) =>
+  localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(families));
+
+export const loadRecentFonts = () => loadList(RECENT_STORAGE_KEY);
+export const storeRecentFonts = (families: string[]) =>
+  localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(families));
+
+// 使ったフォントを先頭に移す
+export const pushRecentFont = (recent: string[], family: string) =>
+  [family, ...recent.filter(f => f !== family)].slice(0, MAX_RECENT);
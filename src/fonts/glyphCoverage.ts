@@ -0,0 +1,87 @@
+import { parseMarkup } from '../render/markup';
+import { isFontAvailable, primaryFontName } from './fontAvailability';
+
+// フォントが文字を持っているか（持っていなければブラウザが黙って別のフォントで描く）を調べる
+// 「フォント, 総称フォント」で描いた結果が総称フォントだけで描いた結果と同じなら、その文字はフォントにない
+// 文字幅は和文だとどのフォントでも 1em になりやすいので、幅ではなく描いたピクセルで比べる
+
+const SAMPLE_SIZE = 32;
+const CANVAS_SIZE = SAMPLE_SIZE * 2;
+const GENERIC_FALLBACKS = ['serif', 'sans-serif'];
+
+// 空白・改行・制御文字などはどのフォントでも見た目が変わらないので調べない
+const IGNORED = /^[\s\p{Cc}\p{Cf}\p{M}]$/u;
+
+const coverageCache = new Map<string, boolean>();
+let sampleContext: CanvasRenderingContext2D | null | undefined;
+
+function getContext() {
+  if (sampleContext === undefined) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_SIZE;
+    canvas.height = CANVAS_SIZE;
+    sampleContext = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  return sampleContext;
+}
+
+function drawSample(ctx: CanvasRenderingContext2D, font: string, char: string) {
+  ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+  ctx.font = `${SAMPLE_SIZE}px ${font}`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(char, SAMPLE_SIZE / 2, CANVAS_SIZE / 2);
+  return ctx.getImageData(0, 0, CANVAS_SIZE, CANVAS_SIZE).data;
+}
+
+const samePixels = (a: Uint8ClampedArray, b: Uint8ClampedArray) => a.every((value, i) => value === b[i]);
+
+function hasGlyph(name: string, char: string) {
+  const key = `${name}\n${char}`;
+  const cached = coverageCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const ctx = getContext();
+  if (!ctx) return true;
+  const quoted = `"${name.replace(/"/g, '')}"`;
+  const covered = GENERIC_FALLBACKS.some(generic =>
+    !samePixels(drawSample(ctx, `${quoted}, ${generic}`, char), drawSample(ctx, generic, char)));
+  coverageCache.set(key, covered);
+  return covered;
+}
+
+// 実際に描かれる文字（記法を外した本文とルビ）を、重なりなく出てきた順に返す
+export function renderedCharacters(source: string) {
+  const chars = new Set<string>();
+  parseMarkup(source).flat().forEach(run => {
+    for (const char of run.text + (run.ruby ?? '')) {
+      if (!IGNORED.test(char)) chars.add(char);
+    }
+  });
+  return [...chars];
+}
+
+// font-family の先頭のフォントにない文字。フォントは読み込み済みであること（loadFontFor を先に待つ）
+// フォント自体がない場合は別の警告に任せて空を返す（あとで読み込まれたときに結果を残さないため）
+export function findMissingGlyphs(fontFamily: string, chars: string[]) {
+  if (!isFontAvailable(fontFamily)) return [];
+  const name = primaryFontName(fontFamily);
+  return chars.filter(char => !hasGlyph(name, char));
+}
+
+// 調べる文字を含むフォントファイルを読み込んでおく（unicode-range で分かれたフォントもあるため文字を渡す）
+// 失敗しても調べる側でフォールバック扱いになるだけなので、エラーにはしない
+export async function loadFontFor(fontFamily: string, chars: string[]) {
+  try {
+    await document.fonts.load(`${SAMPLE_SIZE}px ${fontFamily}`, chars.join('') || undefined);
+  } catch (error) {
+    console.warn('Font loading warning:', error);
+  }
+}
+
+// かな・漢字を持っているか（フォントブラウザの「日本語」の絞り込み用）
+const JAPANESE_SAMPLE = ['あ', 'ア', '漢'];
+
+export async function supportsJapanese(fontFamily: string) {
+  await loadFontFor(fontFamily, JAPANESE_SAMPLE);
+  return isFontAvailable(fontFamily) && findMissingGlyphs(fontFamily, JAPANESE_SAMPLE).length === 0;
+}
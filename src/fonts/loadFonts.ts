@@ -0,0 +1,15 @@
+import { fontString } from '../render/layout';
+import type { TextStyle } from '../render/types';
+
+// 描画前に、使われているフォントの読み込みを待つ
+// 読み込みに失敗してもフォールバックで描画は続ける
+export async function ensureFontsLoaded(styles: TextStyle[]) {
+  const fonts = new Set(styles.map(style => fontString(style.fontSize, style)));
+  await Promise.all([...fonts].map(async (font) => {
+    try {
+      await document.fonts.load(font);
+    } catch (error) {
+      console.warn('Font loading warning:', error);
+    }
+  }));
+}
@@ -0,0 +1,61 @@
+export type BundledFace = {
+  name: string;         // @font-face の font-family 名（fonts.css と一致させる）
+  file: string;         // public/ からのパス
+  format: string;       // @font-face の format()
+};
+
+export type FontItem = {
+  label: string;        // UI 表示名
+  family: string;       // ctx.font に渡す font-family
+  face?: BundledFace;   // public/fonts に同梱しているフォント
+};
+
+export const presetFonts: FontItem[] = [
+  {
+    label: 'Noto Sans JP',
+    family: "MyNotoJP, 'Noto Sans JP', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
+    face: { name: 'MyNotoJP', file: '/fonts/NotoSansJP-Black.woff2', format: 'woff2' },
+  },
+  {
+    label: 'BIZ UDPゴシック',
+    family: "MyBIZUDPGothic, 'BIZ UDPGothic', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
+    face: { name: 'MyBIZUDPGothic', file: '/fonts/BIZUDPGothic-Bold.woff2', format: 'woff2' },
+  },
+  {
+    label: 'Source Han Sans JP',
+    family: "MySourceHanSansJP, 'Source Han Sans JP', 'Hiragino Kaku Gothic ProN', Meiryo, sans-serif",
+    face: { name: 'MySourceHanSansJP', file: '/fonts/SourceHanSansJP-Heavy.woff2', format: 'woff2' },
+  },
+  {
+    label: 'Arial Black',
+    family: 'Arial Black',
+  },
+  {
+    label: 'Impact',
+    family: 'Impact',
+  },
+  {
+    label: 'Arial',
+    family: 'Arial',
+  },
+  {
+    label: 'Times New Roman',
+    family: 'Times New Roman',
+  },
+  {
+    label: 'Courier New',
+    family: 'Courier New',
+  },
+  {
+    label: 'Comic Sans MS',
+    family: 'Comic Sans MS',
+  },
+];
+
+// font-family 文字列の中で使われている同梱フォントを返す
+export function findBundledFaces(fontFamily: string): BundledFace[] {
+  const names = fontFamily.split(',').map(name => name.trim().replace(/^['"]|['"]$/g, ''));
+  return presetFonts
+    .map(f => f.face)
+    .filter((face): face is BundledFace => !!face && names.includes(face.name));
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  deleteStoredFont, loadStoredFonts, readFontFile, registerCustomFont, storeFont, unregisterCustomFont, type CustomFont,
+} from '../fonts/customFonts';
+
+// 読み込んだフォントの一覧。起動時に IndexedDB から読み直して FontFace に登録する
+// 登録に失敗したフォント（壊れたファイルなど）は一覧に出さない
+export function useCustomFonts() {
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  // 続けて読み込んだときも名前の重なりを確かめられるよう、最新の一覧を ref にも持つ
+  const fontsRef = useRef<CustomFont[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let stored: CustomFont[];
+      try {
+        stored = await loadStoredFonts();
+      } catch (error) {
+        console.error('保存したフォントの読み込みエラー:', error);
+        return;
+      }
+      const registered: CustomFont[] = [];
+      for (const font of stored) {
+        try {
+          await registerCustomFont(font);
+          registered.push(font);
+        } catch (error) {
+          console.error(`フォント「${font.name}」を登録できませんでした:`, error);
+        }
+      }
+      if (cancelled) return;
+      fontsRef.current = [...registered, ...fontsRef.current.filter(f => !registered.some(r => r.id === f.id))];
+      setFonts(fontsRef.current);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 保存に失敗しても、このセッションの間は使えるようにする（失敗は呼び出し側に返す）
+  const addFont = useCallback(async (file: File) => {
+    const font = await readFontFile(file, fontsRef.current.map(f => f.name));
+    try {
+      await registerCustomFont(font);
+    } catch {
+      throw new Error(`${file.name} はフォントとして読み込めませんでした（ファイルが壊れている可能性があります）`);
+    }
+    fontsRef.current = [...fontsRef.current, font];
+    setFonts(fontsRef.current);
+    await storeFont(font);
+    return font;
+  }, []);
+
+  const removeFont = useCallback(async (id: string) => {
+    unregisterCustomFont(id);
+    fontsRef.current = fontsRef.current.filter(f => f.id !== id);
+    setFonts(fontsRef.current);
+    await deleteStoredFont(id);
+  }, []);
+
+  return { fonts, addFont, removeFont };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import type { FontItem } from '../fonts/presetFonts';
+import { isFontAvailable } from '../fonts/fontAvailability';
+import { findMissingGlyphs, loadFontFor, renderedCharacters } from '../fonts/glyphCoverage';
+
+export type GlyphCoverage = {
+  missing: string[];            // 選択中のフォントにない文字
+  suggestions: FontItem[];      // missing をすべて持っているフォント（候補の並び順）
+};
+
+const EMPTY: GlyphCoverage = { missing: [], suggestions: [] };
+const MAX_SUGGESTIONS = 3;
+
+// テキストと選択中のフォントから、描けない文字と切り替え先の候補を求める
+// フォントの読み込みを待つので非同期。入力が変わったら古い結果は捨てる
+// candidates は候補が変わったときだけ作り直すこと（変わるたびに調べ直す）
+export function useGlyphCoverage(fontFamily: string, text: string, candidates: FontItem[]) {
+  const [coverage, setCoverage] = useState<GlyphCoverage>(EMPTY);
+
+  useEffect(() => {
+    let cancelled = false;
+    const chars = renderedCharacters(text);
+    (async () => {
+      await loadFontFor(fontFamily, chars);
+      const missing = findMissingGlyphs(fontFamily, chars);
+      if (missing.length === 0) {
+        if (!cancelled) setCoverage(EMPTY);
+        return;
+      }
+
+      const suggestions: FontItem[] = [];
+      for (const font of candidates) {
+        if (cancelled || suggestions.length >= MAX_SUGGESTIONS) break;
+        if (font.family === fontFamily || !isFontAvailable(font.family)) continue;
+        await loadFontFor(font.family, missing);
+        if (findMissingGlyphs(font.family, missing).length === 0) suggestions.push(font);
+      }
+      if (!cancelled) setCoverage({ missing, suggestions });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [fontFamily, text, candidates]);
+
+  return coverage;
+}
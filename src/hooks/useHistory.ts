@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  canRedo, canUndo, createHistory, currentState, jumpHistory, pushHistory, redoHistory, sealHistory, undoHistory,
+} from '../model/history';
+
+// 履歴付きの状態。commit で変更を積み、undo / redo / jump で移動する
+// ポインターを離すたびに直前の項目を区切るので、スライダーやドラッグの 1 回分が 1 ステップになる
+export function useHistory<T>(initial: () => T) {
+  const [history, setHistory] = useState(() => createHistory(initial()));
+
+  useEffect(() => {
+    const seal = () => setHistory(sealHistory);
+    window.addEventListener('pointerup', seal);
+    return () => window.removeEventListener('pointerup', seal);
+  }, []);
+
+  const commit = useCallback((label: string, update: (prev: T) => T, mergeKey?: string) => {
+    setHistory(prev => pushHistory(prev, update(currentState(prev)), label, mergeKey));
+  }, []);
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const jump = useCallback((index: number) => setHistory(prev => jumpHistory(prev, index)), []);
+  // 履歴を捨てて state から始め直す（起動時に共有リンクから復元するときなど）
+  const reset = useCallback((state: T, label: string) => setHistory(createHistory(state, label)), []);
+
+  return {
+    state: currentState(history),
+    entries: history.entries,
+    index: history.index,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+    commit,
+    undo,
+    redo,
+    jump,
+    reset,
+  };
+}
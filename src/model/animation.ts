@@ -0,0 +1,190 @@
+import type { Gradient, RenderableLayer } from '../render/types';
+import { parseMarkup } from '../render/markup';
+import { createId } from './ids';
+
+// 登場アニメーション：時刻ごとにレイヤーのスタイル・位置を書き換えて 1 コマずつ描く
+// 描画エンジンには手を入れず、書き換えたレイヤーを renderLayers に渡すだけにしている（タイプライターの reveal を除く）
+
+export type AnimationEffectType = 'pop' | 'typewriter' | 'shake' | 'bounce' | 'gradientSweep' | 'strokePulse';
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'back' | 'bounce';
+
+export type AnimationEffect = {
+  id: string;
+  type: AnimationEffectType;
+  layerId: string | null;       // null ならすべてのレイヤー
+  start: number;                // 秒
+  duration: number;             // 秒
+  easing: Easing;
+  strength: number;             // 効果ごとの強さ（意味は EFFECT_TYPES の strength を参照）
+};
+
+export type AnimationSettings = {
+  effects: AnimationEffect[];   // 上から順に重ねて掛ける
+  length: number;               // 全体の長さ（秒）。効果が終わった後は最後の状態のまま止まる
+  fps: number;
+  loop: number;                 // 再生回数（0 は繰り返し続ける）
+  scale: number;                // 書き出しサイズに掛ける倍率（コマ数が多いので小さめにできる）
+};
+
+type EffectInfo = {
+  type: AnimationEffectType;
+  label: string;
+  easing: Easing;               // 追加したときの既定値
+  duration: number;
+  strength: { label: string; min: number; max: number; step: number; value: number; unit: string };
+};
+
+export const EFFECT_TYPES: EffectInfo[] = [
+  { type: 'pop', label: 'ポップイン', easing: 'back', duration: 0.5,
+    strength: { label: '開始時の大きさ', min: 0, max: 100, step: 5, value: 0, unit: '%' } },
+  { type: 'typewriter', label: 'タイプライター', easing: 'linear', duration: 1.2,
+    strength: { label: '開始時の文字数', min: 0, max: 20, step: 1, value: 0, unit: '文字' } },
+  { type: 'shake', label: 'シェイク', easing: 'easeOut', duration: 0.6,
+    strength: { label: '揺れ幅', min: 0, max: 100, step: 1, value: 24, unit: 'px' } },
+  { type: 'bounce', label: 'バウンド', easing: 'bounce', duration: 0.9,
+    strength: { label: '落ちる高さ', min: 0, max: 1000, step: 10, value: 400, unit: 'px' } },
+  { type: 'gradientSweep', label: 'グラデーション回転', easing: 'easeInOut', duration: 1.5,
+    strength: { label: '回転角', min: -720, max: 720, step: 15, value: 360, unit: '°' } },
+  { type: 'strokePulse', label: '縁取りパルス', easing: 'easeInOut', duration: 0.8,
+    strength: { label: '太さの増減', min: 0, max: 200, step: 5, value: 60, unit: '%' } },
+];
+
+export const EASINGS: { easing: Easing; label: string }[] = [
+  { easing: 'linear', label: '一定' },
+  { easing: 'easeIn', label: 'ease-in' },
+  { easing: 'easeOut', label: 'ease-out' },
+  { easing: 'easeInOut', label: 'ease-in-out' },
+  { easing: 'back', label: '行き過ぎて戻る' },
+  { easing: 'bounce', label: '弾む' },
+];
+
+export const ANIMATION_FPS = [10, 12, 15, 20, 24, 25, 30, 50] as const;
+export const ANIMATION_SCALES = [0.25, 0.5, 0.75, 1] as const;
+export const MAX_ANIMATION_LENGTH = 30;
+export const MAX_ANIMATION_LOOP = 100;
+
+export const DEFAULT_ANIMATION: AnimationSettings = {
+  effects: [],
+  length: 2,
+  fps: 20,
+  loop: 0,
+  scale: 0.5,
+};
+
+export const effectInfo = (type: AnimationEffectType) => EFFECT_TYPES.find(info => info.type === type)!;
+
+export function createEffect(type: AnimationEffectType, partial: Partial<Omit<AnimationEffect, 'id' | 'type'>> = {}): AnimationEffect {
+  const info = effectInfo(type);
+  return {
+    layerId: null,
+    start: 0,
+    duration: info.duration,
+    easing: info.easing,
+    strength: info.strength.value,
+    ...partial,
+    type,
+    id: createId('effect'),
+  };
+}
+
+// ---- イージング（0〜1 → 0〜1。back は途中で 1 を超える） ----
+
+function bounceOut(t: number) {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75;
+  if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375;
+  return n * (t -= 2.625 / d) * t + 0.984375;
+}
+
+const EASING_FUNCTIONS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - (1 - t) ** 3,
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  back: (t) => {
+    const c1 = 1.70158;
+    return 1 + (c1 + 1) * (t - 1) ** 3 + c1 * (t - 1) ** 2;
+  },
+  bounce: bounceOut,
+};
+
+export const ease = (easing: Easing, t: number) => EASING_FUNCTIONS[easing](Math.min(1, Math.max(0, t)));
+
+// ---- 時刻ごとのレイヤー ----
+
+// 実際に描かれる文字数（記法を外した本文とルビ。改行は数えない）
+export function renderedLength(source: string) {
+  return parseMarkup(source).flat().reduce((sum, run) => sum + [...run.text].length + [...(run.ruby ?? '')].length, 0);
+}
+
+const rotateGradient = (gradient: Gradient, degrees: number): Gradient => ({ ...gradient, angle: gradient.angle + degrees });
+
+// 1 つの効果を掛ける。p は効果の中での進み具合（0〜1、イージング前）
+function applyEffect<T extends RenderableLayer>(layer: T, effect: AnimationEffect, p: number): T {
+  const e = ease(effect.easing, p);
+  const { style } = layer;
+
+  switch (effect.type) {
+    case 'pop': {
+      // 開始時の大きさから 1 倍へ（0 だと逆行列が作れないのでわずかに残す）
+      const from = effect.strength / 100;
+      const factor = Math.max(0.001, from + (1 - from) * e);
+      return {
+        ...layer,
+        style: { ...style, transform: { ...style.transform, scaleX: style.transform.scaleX * factor, scaleY: style.transform.scaleY * factor } },
+      };
+    }
+    case 'typewriter': {
+      const total = renderedLength(layer.text);
+      const from = Math.min(total, effect.strength);
+      const shown = Math.floor(from + (total - from) * e + 1e-9);
+      return { ...layer, reveal: Math.min(layer.reveal ?? Infinity, shown) };
+    }
+    case 'shake': {
+      // 揺れ幅はイージングに沿って 0 へ減っていく（時刻から決まるので何度描いても同じ）
+      const amplitude = effect.strength * (1 - e);
+      const phase = p * effect.duration * Math.PI * 2;
+      return {
+        ...layer,
+        offsetX: layer.offsetX + amplitude * Math.sin(phase * 9),
+        offsetY: layer.offsetY + amplitude * 0.6 * Math.sin(phase * 13 + 1),
+      };
+    }
+    case 'bounce':
+      return { ...layer, offsetY: layer.offsetY - effect.strength * (1 - e) };
+    case 'gradientSweep': {
+      // 最後に元の角度へ戻るよう、回転角の分だけ手前から回す
+      const degrees = effect.strength * (e - 1);
+      return {
+        ...layer,
+        style: {
+          ...style,
+          textGradient: rotateGradient(style.textGradient, degrees),
+          strokes: style.strokes.map(stroke => ({ ...stroke, gradient: rotateGradient(stroke.gradient, degrees) })),
+        },
+      };
+    }
+    case 'strokePulse': {
+      // 1 回ふくらんで元の太さに戻る
+      const factor = 1 + (effect.strength / 100) * Math.sin(Math.PI * e);
+      return { ...layer, style: { ...style, strokes: style.strokes.map(stroke => ({ ...stroke, width: stroke.width * factor })) } };
+    }
+  }
+}
+
+// time（秒）の時点のレイヤー。始まる前の効果は最初の状態、終わった効果は最後の状態で掛ける
+export function animateLayers<T extends RenderableLayer & { id: string }>(layers: T[], animation: AnimationSettings, time: number): T[] {
+  return layers.map(layer => animation.effects.reduce((current, effect) => {
+    if (effect.layerId !== null && effect.layerId !== layer.id) return current;
+    const p = effect.duration > 0 ? (time - effect.start) / effect.duration : time >= effect.start ? 1 : 0;
+    return applyEffect(current, effect, Math.min(1, Math.max(0, p)));
+  }, layer));
+}
+
+// 効果がすべて収まる長さ（全体の長さの目安）
+export const effectsEnd = (effects: AnimationEffect[]) =>
+  effects.reduce((end, effect) => Math.max(end, effect.start + effect.duration), 0);
+
+export const frameCount = (animation: AnimationSettings) => Math.max(1, Math.round(animation.length * animation.fps));
@@ -0,0 +1,40 @@
+import type { Background, BackgroundImage } from '../render/types';
+import { twoStopGradient } from '../render/gradient';
+
+export const DEFAULT_BACKGROUND: Background = {
+  type: 'none',
+  color: '#1E293B',
+  gradient: { ...twoStopGradient('#0F172A', '#475569', 90), scope: 'block' },
+  image: null,
+  fit: 'cover',
+  positionX: 0.5,
+  positionY: 0.5,
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  blur: 0,
+  darken: 0,
+  includeInExport: true,
+};
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+// 画像を読み込んで寸法を調べる（読めない形式なら reject）
+export function decodeImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('画像を読み込めませんでした'));
+    image.src = src;
+  });
+}
+
+// ファイル（ドロップ・貼り付け・選択）を data URI にして背景画像にする
+export async function readBackgroundImage(file: File): Promise<BackgroundImage> {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const image = await decodeImage(src);
+  return { src, width: image.naturalWidth, height: image.naturalHeight, name: file.name || '貼り付けた画像' };
+}
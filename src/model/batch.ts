@@ -0,0 +1,127 @@
+import type { TextLayer } from './layers';
+import { detectDelimiter, parseCsv } from './csv';
+import { applyPresetConfig, type Preset } from './presets';
+
+// 一括書き出し：表の 1 行 = 画像 1 枚
+// 列をレイヤーのテキストやプリセット名に割り当て、今のレイヤーを元に 1 枚ずつ組み立てる
+
+export type BatchTable = {
+  columns: string[];            // 見出し（ファイル名テンプレートの {列名} に使う）
+  rows: string[][];             // 列数は columns にそろえる
+};
+
+export type BatchMapping = {
+  textColumns: Record<string, number>;     // レイヤー id → 列番号（ないレイヤーは今のテキストのまま）
+  presetColumn: number | null;             // プリセット名の列（テキストを差し替えるレイヤーに適用する）
+};
+
+export type BatchItem = {
+  index: number;                // 1 始まり（{index}）
+  layers: TextLayer[];
+  filename: string;
+  warnings: string[];
+};
+
+export const DEFAULT_FILENAME_TEMPLATE = 'ep{index:02}-{title}.png';
+export const BATCH_EXTENSION = '.png';
+
+// 1 行 1 タイトルのリスト（空行は飛ばす）。列名は title
+export function tableFromList(source: string): BatchTable {
+  const rows = source.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => [line]);
+  return { columns: ['title'], rows };
+}
+
+// 見出しが空・重複していれば「列N」や (2) を付けて区別できるようにする
+function uniqueColumns(names: string[]) {
+  const seen = new Set<string>();
+  return names.map((raw, i) => {
+    const base = raw.trim() || `列${i + 1}`;
+    let name = base;
+    for (let n = 2; seen.has(name); n++) name = `${base} (${n})`;
+    seen.add(name);
+    return name;
+  });
+}
+
+export function tableFromCsv(source: string, hasHeader: boolean): BatchTable {
+  const records = parseCsv(source, detectDelimiter(source));
+  const header = hasHeader ? records.shift() ?? [] : [];
+  const width = Math.max(header.length, ...records.map(record => record.length), 0);
+  const columns = uniqueColumns(Array.from({ length: width }, (_, i) => header[i] ?? ''));
+  const rows = records.map(record => columns.map((_, i) => record[i] ?? ''));
+  return { columns, rows };
+}
+
+// ---- ファイル名 ----
+
+// Windows / macOS で使えない文字と制御文字を置き換える（改行などの空白は 1 つの空白にまとめる）
+const UNSAFE_CHARS = '\\/:*?"<>|';
+const sanitize = (value: string) =>
+  [...value.replace(/\s+/g, ' ')].map(ch => (ch < ' ' || UNSAFE_CHARS.includes(ch) ? '_' : ch)).join('').trim();
+
+// {列名} を値に、{列名:03} は数値なら 3 桁のゼロ埋めにする
+// 知らない名前はそのまま残す（テンプレートの打ち間違いに気づけるように）
+export function fillFilenameTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{([^{}:]+)(?::(\d+))?\}/g, (match, key: string, width?: string) => {
+    const value = values[key.trim()];
+    if (value === undefined) return match;
+    const padded = width && /^-?\d+$/.test(value) ? value.padStart(Number(width), '0') : value;
+    return sanitize(padded);
+  });
+}
+
+// {index} は 1 始まりの通し番号。空になったら番号だけにする
+export function formatFilename(template: string, values: Record<string, string>, index: number) {
+  const name = fillFilenameTemplate(template, { ...values, index: String(index) });
+  const base = name.trim() || String(index);
+  return base.toLowerCase().endsWith(BATCH_EXTENSION) ? base : `${base}${BATCH_EXTENSION}`;
+}
+
+// ZIP 内で重ならないよう、2 つ目以降に -2, -3… を付ける
+export function uniqueFilenames(names: string[]) {
+  const seen = new Set<string>();
+  return names.map(name => {
+    const dot = name.lastIndexOf('.');
+    const [stem, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let result = name;
+    for (let n = 2; seen.has(result.toLowerCase()); n++) result = `${stem}-${n}${ext}`;
+    seen.add(result.toLowerCase());
+    return result;
+  });
+}
+
+// ---- 組み立て ----
+
+export function buildBatch(table: BatchTable, layers: TextLayer[], mapping: BatchMapping, presets: Preset[],
+  template: string): BatchItem[] {
+  const presetByName = new Map(presets.map(preset => [preset.name, preset]));
+
+  const items = table.rows.map((row, rowIndex): BatchItem => {
+    const index = rowIndex + 1;
+    const values = Object.fromEntries(table.columns.map((column, i) => [column, row[i] ?? '']));
+    const warnings: string[] = [];
+
+    const presetName = mapping.presetColumn === null ? '' : (row[mapping.presetColumn] ?? '').trim();
+    const preset = presetName ? presetByName.get(presetName) : undefined;
+    if (presetName && !preset) warnings.push(`プリセット「${presetName}」が見つかりません`);
+
+    const batchLayers = layers.map(layer => {
+      const column = mapping.textColumns[layer.id];
+      if (column === undefined) return layer;
+      return {
+        ...layer,
+        text: row[column] ?? '',
+        style: preset ? applyPresetConfig(layer.style, preset.config) : layer.style,
+        presetName: preset ? preset.name : layer.presetName,
+      };
+    });
+    if (batchLayers.some(layer => mapping.textColumns[layer.id] !== undefined && !layer.text.trim())) {
+      warnings.push('テキストが空です');
+    }
+
+    return { index, layers: batchLayers, filename: formatFilename(template, values, index), warnings };
+  });
+
+  const filenames = uniqueFilenames(items.map(item => item.filename));
+  return items.map((item, i) => ({ ...item, filename: filenames[i] }));
+}
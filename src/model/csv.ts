@@ -0,0 +1,49 @@
+// CSV（RFC 4180）を行 × 列の文字列に分ける
+// "…" で囲んだ値は区切り・改行を含められ、"" で " を表す。先頭の BOM と末尾の空行は捨てる
+export function parseCsv(source: string, delimiter = ','): string[][] {
+  const text = source.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every(value => value.trim() === '')) rows.pop();
+  return rows;
+}
+
+// タブ区切り（表計算ソフトからのコピー）ならタブ、そうでなければカンマ
+export function detectDelimiter(source: string) {
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+}
@@ -0,0 +1,91 @@
+import type { TextStyle } from '../render/types';
+
+// 編集履歴（元に戻す / やり直す）
+// 状態を丸ごと持つスナップショット方式。entries[index] が現在の状態
+
+export type HistoryEntry<T> = {
+  label: string;                // 履歴一覧に出す操作名
+  state: T;
+  mergeKey?: string;            // 同じキーの操作が続いたら 1 つにまとめる
+  time: number;
+};
+
+export type History<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
+// 残す履歴の数（超えたら古いものから捨てる）
+export const HISTORY_LIMIT = 100;
+
+// 同じ mergeKey でも、これ以上間が空いたら別の操作とみなす（ms）
+const MERGE_WINDOW = 1000;
+
+export function createHistory<T>(state: T, label = '初期状態'): History<T> {
+  return { entries: [{ label, state, time: Date.now() }], index: 0 };
+}
+
+export const currentState = <T>(history: History<T>) => history.entries[history.index].state;
+export const canUndo = <T>(history: History<T>) => history.index > 0;
+export const canRedo = <T>(history: History<T>) => history.index < history.entries.length - 1;
+
+// 新しい状態を積む。やり直し分は捨てる
+// スライダーやドラッグのように同じ操作が続くときは、直前の項目の状態を置き換える
+export function pushHistory<T>(history: History<T>, state: T, label: string, mergeKey?: string, now = Date.now()): History<T> {
+  const current = history.entries[history.index];
+  if (state === current.state) return history;
+
+  const entries = history.entries.slice(0, history.index + 1);
+  if (mergeKey && current.mergeKey === mergeKey && now - current.time < MERGE_WINDOW) {
+    entries[entries.length - 1] = { ...current, state, time: now };
+    return { entries, index: history.index };
+  }
+
+  entries.push({ label, state, mergeKey, time: now });
+  const overflow = Math.max(0, entries.length - HISTORY_LIMIT);
+  return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+}
+
+// 直前の項目をまとめ対象から外す（ドラッグを離したときなど、操作の区切りで呼ぶ）
+export function sealHistory<T>(history: History<T>): History<T> {
+  const current = history.entries[history.index];
+  if (current.mergeKey === undefined) return history;
+  const entries = [...history.entries];
+  entries[history.index] = { ...current, mergeKey: undefined };
+  return { entries, index: history.index };
+}
+
+export function jumpHistory<T>(history: History<T>, index: number): History<T> {
+  const next = Math.max(0, Math.min(history.entries.length - 1, index));
+  if (next === history.index) return history;
+  // 戻った先から続けて編集しても、前の項目とまとめないようにする
+  return sealHistory({ ...history, index: next });
+}
+
+export const undoHistory = <T>(history: History<T>) => jumpHistory(history, history.index - 1);
+export const redoHistory = <T>(history: History<T>) => jumpHistory(history, history.index + 1);
+
+// スタイル変更の履歴名（変えた項目から作る）
+const STYLE_FIELD_LABELS: Partial<Record<keyof TextStyle, string>> = {
+  fontFamily: 'フォント',
+  fontWeight: '太さ',
+  fontStyle: 'イタリック',
+  fontSize: '文字サイズ',
+  lineHeight: '行間',
+  letterSpacing: '字間',
+  textAlign: '揃え',
+  lineScales: '行ごとの倍率',
+  autoFit: '自動フィット',
+  writingMode: '縦書き / 横書き',
+  textColorType: '塗りの種類',
+  textColor: '塗りの色',
+  textGradient: 'グラデーション',
+  strokes: '縁取り',
+  shadows: '影・光彩',
+  transform: '変形',
+};
+
+export function describeStyleChange(patch: Partial<TextStyle>) {
+  const names = (Object.keys(patch) as (keyof TextStyle)[]).map(key => STYLE_FIELD_LABELS[key] ?? key);
+  return `${names.join('・')}を変更`;
+}
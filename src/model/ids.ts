@@ -0,0 +1,7 @@
+let seq = 0;
+
+// セッション内で一意な id（React の key や参照用）
+export function createId(prefix: string) {
+  seq += 1;
+  return `${prefix}-${Date.now().toString(36)}-${seq}`;
+}
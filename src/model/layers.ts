@@ -0,0 +1,89 @@
+import type { TextSpec, TextStyle, TextTransform } from '../render/types';
+import { presetFonts } from '../fonts/presetFonts';
+import { createId } from './ids';
+import { createStroke } from './strokes';
+import { createShadow } from './shadows';
+import { twoStopGradient } from '../render/gradient';
+import { plainText } from '../render/markup';
+
+// キャンバス上の 1 つのテキストオブジェクト
+// offsetX / offsetY はキャンバス中央からのズレ（出力サイズ基準のピクセル）
+export type TextLayer = TextSpec & {
+  id: string;
+  visible: boolean;
+  locked: boolean;              // ロック中はキャンバス上で選択・移動できない
+  presetName: string | null;    // 最後に適用したプリセット（書き出しのファイル名に使う）
+};
+
+// 変形なし（warp の強さは選んだときの初期値）
+export const DEFAULT_TRANSFORM: TextTransform = {
+  rotation: 0,
+  skewX: 0,
+  scaleX: 1,
+  scaleY: 1,
+  warp: 'none',
+  warpStrength: 50,
+};
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: presetFonts[0].family,
+  fontWeight: 400,
+  fontStyle: 'normal',
+  fontSize: 120,
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  textAlign: 'center',
+  lineScales: [],
+  autoFit: { mode: 'off', maxWidth: 1200, maxHeight: 640 },
+  writingMode: 'horizontal',
+  textColorType: 'solid',
+  textColor: '#FF0000',
+  textGradient: twoStopGradient('#FF0000', '#FF6600'),
+  strokes: [
+    createStroke({ color: '#FFFFFF', width: 8 }),
+    createStroke({ color: '#000000', width: 18 }),
+  ],
+  shadows: [createShadow()],
+  transform: DEFAULT_TRANSFORM,
+};
+
+export function createLayer(partial: Partial<Omit<TextLayer, 'id'>> = {}): TextLayer {
+  return {
+    text: 'サンプル',
+    style: DEFAULT_TEXT_STYLE,
+    offsetX: 0,
+    offsetY: 0,
+    visible: true,
+    locked: false,
+    presetName: null,
+    ...partial,
+    id: createId('layer'),
+  };
+}
+
+// 複製は少しずらして元のレイヤーの真上に置く
+export function duplicateLayer(layer: TextLayer): TextLayer {
+  return createLayer({
+    ...layer,
+    offsetX: layer.offsetX + 20,
+    offsetY: layer.offsetY + 20,
+    locked: false,
+  });
+}
+
+// レイヤー一覧での表示名（1行目を短く）
+export function layerLabel(layer: TextLayer) {
+  const firstLine = plainText(layer.text).split('\n')[0].trim();
+  if (!firstLine) return '(空のテキスト)';
+  return firstLine.length > 16 ? `${firstLine.slice(0, 16)}…` : firstLine;
+}
+
+// index の要素を 1 つ前後に動かした配列を返す
+export function moveItem<T>(items: T[], index: number, delta: number) {
+  const target = index + delta;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(index, 1);
+  next.splice(target, 0, item);
+  return next;
+}
@@ -0,0 +1,259 @@
+import type { TextStyle } from '../render/types';
+import { twoStopGradient } from '../render/gradient';
+import { createStroke, migrateLegacyBorders, migrateStroke, type LegacyBorderFields } from './strokes';
+import { createGlow, migrateLegacyShadow, type LegacyShadowFields } from './shadows';
+import { DEFAULT_TEXT_STYLE } from './layers';
+import { parseTextStyle } from './schema';
+import { asArray, asBoolean, asNumber, asObject, asString, join, ValidationError, type JsonObject, type Parser } from './validate';
+
+// プリセットは見た目に関わるスタイルの項目をすべて持てる（未指定の項目は適用時に今の値を残す）
+// 行ごとの倍率は特定のテキストの行数に結びつくので含めない
+export type PresetConfig = Partial<Omit<TextStyle, 'lineScales'>>;
+
+// PresetConfig の項目一覧（型で網羅を確かめるため Record にしている）
+const PRESET_FIELDS: Record<keyof PresetConfig, true> = {
+  fontFamily: true,
+  fontWeight: true,
+  fontStyle: true,
+  fontSize: true,
+  lineHeight: true,
+  letterSpacing: true,
+  textAlign: true,
+  autoFit: true,
+  writingMode: true,
+  textColorType: true,
+  textColor: true,
+  textGradient: true,
+  strokes: true,
+  shadows: true,
+  transform: true,
+};
+const PRESET_FIELD_NAMES = Object.keys(PRESET_FIELDS) as (keyof PresetConfig)[];
+
+export type Preset = {
+  name: string;
+  config: PresetConfig;
+  favorite?: boolean;
+  category?: string;            // ユーザーが決める分類（一覧の絞り込み用）
+  tags?: string[];
+  builtin?: string;             // 組み込みプリセットの識別子（削除後に復元するときの目印）
+};
+
+export const DEFAULT_PRESETS: Preset[] = [
+  {
+    name: 'YouTube風', builtin: 'youtube', category: '定番', config: {
+      textColor: '#FF0000', textColorType: 'solid',
+      strokes: [createStroke({ color: '#FFFFFF', width: 8 }), createStroke({ color: '#000000', width: 18 })],
+    }
+  },
+  {
+    name: 'ゲーム実況風', builtin: 'game', category: '定番', config: {
+      textColorType: 'gradient', textGradient: twoStopGradient('#FFD700', '#FF8C00'),
+      strokes: [createStroke({ color: '#000000', width: 10 }), createStroke({ color: '#FFFFFF', width: 2 })],
+    }
+  },
+  {
+    name: 'シンプル白', builtin: 'simple-white', category: '定番', config: {
+      textColor: '#FFFFFF', textColorType: 'solid',
+      strokes: [createStroke({ color: '#000000', width: 6 }), createStroke({ color: '#333333', width: 0 })],
+    }
+  },
+  {
+    name: 'ネオン風', builtin: 'neon', category: '定番', config: {
+      textColorType: 'gradient', textGradient: twoStopGradient('#00FFFF', '#FF00FF'),
+      strokes: [createStroke({ color: '#FFFFFF', width: 4 }), createStroke({ color: '#000000', width: 12 })],
+      shadows: [
+        createGlow({ color: '#00FFFF', blur: 40, spread: 8 }),
+        createGlow({ color: '#FF00FF', blur: 80, opacity: 0.7 }),
+      ],
+    }
+  },
+];
+
+// 旧形式：本体のグラデーションは 2 色 + 角度のフィールドだった
+type LegacyGradientFields = {
+  textGradientStart?: string;
+  textGradientEnd?: string;
+  textGradientAngle?: number;
+};
+
+// 保存・共有用のファイル形式
+// 版 1 は { name, config } の配列をそのまま保存していた（旧形式のフィールドを含むことがある）
+export const PRESET_FORMAT = 'text-decorator-presets';
+export const PRESET_VERSION = 2;
+export const PRESET_EXTENSION = '.json';
+const PRESET_STORAGE_KEY = 'text-decorator-presets';
+
+const isStrokeLike = (value: unknown): value is Parameters<typeof migrateStroke>[0] =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as JsonObject).gradient === 'object' && (value as JsonObject).gradient !== null;
+
+// 旧形式のフィールドを現在の形式に変換する（検査の前に JSON のまま行う）
+// - border1 / border2 → 縁取りリスト
+// - textGradientStart / End / Angle → 停止点リストのグラデーション
+// - shadowEnabled / OffsetX / OffsetY / Blur / Opacity → 影リスト
+// - 縁取りのグラデーション { start, end, angle } → 停止点リスト
+function migrateLegacyConfig(raw: JsonObject): JsonObject {
+  const {
+    border1Color, border1Width, border2Color, border2Width,
+    textGradientStart, textGradientEnd, textGradientAngle,
+    shadowEnabled, shadowOffsetX, shadowOffsetY, shadowBlur, shadowOpacity,
+    ...config
+  } = raw as JsonObject & LegacyBorderFields & LegacyGradientFields & LegacyShadowFields;
+
+  if (Array.isArray(config.strokes)) {
+    config.strokes = config.strokes.map(stroke => (isStrokeLike(stroke) ? migrateStroke(stroke) : stroke));
+  } else if (config.strokes === undefined) {
+    const migrated = migrateLegacyBorders({ border1Color, border1Width, border2Color, border2Width });
+    if (migrated) config.strokes = migrated;
+  }
+
+  if (config.textGradient === undefined && (textGradientStart !== undefined || textGradientEnd !== undefined)) {
+    config.textGradient = twoStopGradient(textGradientStart ?? '#FF0000', textGradientEnd ?? '#FF6600', textGradientAngle ?? 90);
+  }
+
+  if (config.shadows === undefined) {
+    const migrated = migrateLegacyShadow({ shadowEnabled, shadowOffsetX, shadowOffsetY, shadowBlur, shadowOpacity });
+    if (migrated) config.shadows = migrated;
+  }
+
+  return config;
+}
+
+// 指定されている項目だけを検査して残す（知らない項目は捨てる）
+export function parsePresetConfig(value: unknown, path: string): PresetConfig {
+  const raw = migrateLegacyConfig(asObject(value, path));
+  const style = parseTextStyle(raw, path, DEFAULT_TEXT_STYLE);
+  return Object.fromEntries(
+    PRESET_FIELD_NAMES.filter(key => raw[key] !== undefined).map(key => [key, style[key]]),
+  ) as PresetConfig;
+}
+
+export const parsePreset: Parser<Preset> = (value, path) => {
+  const obj = asObject(value, path);
+  const name = asString(obj.name, join(path, 'name')).trim();
+  if (!name) throw new ValidationError(join(path, 'name'), '名前が空です');
+
+  const preset: Preset = { name, config: parsePresetConfig(obj.config, join(path, 'config')) };
+  if (obj.favorite !== undefined) preset.favorite = asBoolean(obj.favorite, join(path, 'favorite'));
+  if (obj.category !== undefined) preset.category = asString(obj.category, join(path, 'category')).trim() || undefined;
+  if (obj.tags !== undefined) preset.tags = normalizeTags(asArray(obj.tags, join(path, 'tags'), asString));
+  if (obj.builtin !== undefined) preset.builtin = asString(obj.builtin, join(path, 'builtin'));
+  return preset;
+};
+
+// プリセット集（localStorage の中身・書き出したファイル）を検査して読み込む
+export function parsePresetPack(json: string): Preset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ValidationError('', 'JSON として読み込めません。ファイルが壊れていないか確認してください');
+  }
+
+  // 版 1：配列そのもの
+  if (Array.isArray(raw)) return asArray(raw, 'presets', parsePreset);
+
+  const pack = asObject(raw, '');
+  if (pack.format !== PRESET_FORMAT) throw new ValidationError('format', 'プリセット集のファイルではありません');
+  const version = asNumber(pack.version, 'version', { min: 1 });
+  if (version > PRESET_VERSION) {
+    throw new ValidationError('version', `新しい版（${version}）のファイルです。アプリを更新してから読み込んでください`);
+  }
+  return asArray(pack.presets, 'presets', parsePreset);
+}
+
+export function serializePresetPack(presets: Preset[]) {
+  return JSON.stringify({ format: PRESET_FORMAT, version: PRESET_VERSION, presets }, null, 2);
+}
+
+// 今のスタイルからプリセットを作る
+export function presetFromStyle(name: string, style: TextStyle): Preset {
+  return {
+    name,
+    config: Object.fromEntries(PRESET_FIELD_NAMES.map(key => [key, style[key]])) as PresetConfig,
+  };
+}
+
+// ---- ライブラリの管理 ----
+
+// 空白を除き、重複と空のタグを捨てる
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+}
+
+// names と重ならない名前（重なれば (2), (3)… を付ける）
+export function uniquePresetName(name: string, names: Iterable<string>) {
+  const taken = new Set(names);
+  let result = name;
+  for (let n = 2; taken.has(result); n++) result = `${name} (${n})`;
+  return result;
+}
+
+// 複製はお気に入り・組み込みの印を引き継がない
+export function duplicatePreset(preset: Preset, presets: Preset[]): Preset {
+  const copy: Preset = { ...preset, name: uniquePresetName(`${preset.name} のコピー`, presets.map(p => p.name)) };
+  delete copy.builtin;
+  delete copy.favorite;
+  return copy;
+}
+
+// 消してしまった組み込みプリセットを末尾に戻す（残っているものはそのまま）
+// 識別子を持たない古いデータでは、同じ名前のものが残っていれば消していないとみなす
+export function restoreDefaultPresets(presets: Preset[]): Preset[] {
+  const present = new Set(presets.flatMap(preset => [preset.builtin, preset.name]));
+  const missing = DEFAULT_PRESETS.filter(preset => !present.has(preset.builtin) && !present.has(preset.name));
+  return mergePresets(presets, missing);
+}
+
+export function presetCategories(presets: Preset[]) {
+  return [...new Set(presets.map(preset => preset.category).filter((c): c is string => !!c))]
+    .sort((a, b) => a.localeCompare(b, 'ja'));
+}
+
+// 名前・分類・タグのどれかに検索語を含むか（大文字小文字は区別しない）
+export function matchesPresetQuery(preset: Preset, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [preset.name, preset.category ?? '', ...(preset.tags ?? [])].some(text => text.toLowerCase().includes(q));
+}
+
+// 読み込んだプリセットを末尾に足す。同じ名前があれば (2), (3)… を付ける
+export function mergePresets(current: Preset[], incoming: Preset[]): Preset[] {
+  const names = current.map(preset => preset.name);
+  const added = incoming.map(preset => {
+    const name = uniquePresetName(preset.name, names);
+    names.push(name);
+    return { ...preset, name };
+  });
+  return [...current, ...added];
+}
+
+// localStorage から読み込む。保存がない・空のときは既定のプリセット
+// 壊れていたときは消してしまわないよう、元の文字列を別のキーに退避する
+export function loadStoredPresets(): Preset[] {
+  if (typeof window === 'undefined') return DEFAULT_PRESETS; // サーバーサイドレンダリング対策
+
+  const saved = localStorage.getItem(PRESET_STORAGE_KEY);
+  if (!saved) return DEFAULT_PRESETS;
+  try {
+    const presets = parsePresetPack(saved);
+    return presets.length > 0 ? presets : DEFAULT_PRESETS;
+  } catch (error) {
+    console.error('プリセットの読み込み失敗:', error);
+    localStorage.setItem(`${PRESET_STORAGE_KEY}-backup`, saved);
+    return DEFAULT_PRESETS;
+  }
+}
+
+export function storePresets(presets: Preset[]) {
+  localStorage.setItem(PRESET_STORAGE_KEY, serializePresetPack(presets));
+}
+
+// プリセットで指定されている項目だけを上書きする（未指定の項目は今のスタイルを残す）
+export function applyPresetConfig(style: TextStyle, config: PresetConfig): TextStyle {
+  const defined = Object.fromEntries(
+    PRESET_FIELD_NAMES.filter(key => config[key] !== undefined).map(key => [key, config[key]]),
+  ) as PresetConfig;
+  return { ...style, ...defined };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS } from '../export/settings';
+import { DEFAULT_ANIMATION } from './animation';
+import { DEFAULT_BACKGROUND } from './background';
+import { DEFAULT_TEXT_STYLE, createLayer } from './layers';
+import { PROJECT_FORMAT, PROJECT_VERSION, migrateProject, parseProject, serializeProject } from './project';
+import { ValidationError } from './validate';
+
+const file = (doc: Record<string, unknown>) => JSON.stringify({ format: PROJECT_FORMAT, ...doc });
+
+describe('parseProject', () => {
+  it('初期の版 1（レイヤー・書き出し設定・アニメーションなし）を既定値で開く', () => {
+    expect(parseProject(file({ version: 1 }))).toEqual({
+      layers: [],
+      exportSettings: DEFAULT_EXPORT_SETTINGS,
+      background: DEFAULT_BACKGROUND,
+      animation: DEFAULT_ANIMATION,
+    });
+  });
+
+  it('後から増えた項目のないレイヤーを既定値で補って開く', () => {
+    const { layers } = parseProject(file({
+      version: 1,
+      layers: [{ id: 'layer-1', text: 'タイトル', style: { fontSize: 80, textColor: '#FFFFFF' } }],
+    }));
+    expect(layers).toEqual([{
+      id: 'layer-1',
+      text: 'タイトル',
+      style: { ...DEFAULT_TEXT_STYLE, fontSize: 80, textColor: '#FFFFFF' },
+      offsetX: 0,
+      offsetY: 0,
+      visible: true,
+      locked: false,
+      presetName: null,
+    }]);
+  });
+
+  it('保存した内容をそのまま読み戻せる', () => {
+    const project = {
+      layers: [createLayer({ text: 'A\nB', offsetX: 12 })],
+      exportSettings: { ...DEFAULT_EXPORT_SETTINGS, format: 'webp' as const, trim: true },
+      background: { ...DEFAULT_BACKGROUND, type: 'solid' as const, color: '#112233' },
+      animation: DEFAULT_ANIMATION,
+    };
+    expect(parseProject(serializeProject(project))).toEqual(project);
+  });
+
+  it('新しい版のファイルは開かずに知らせる', () => {
+    expect(() => parseProject(file({ version: PROJECT_VERSION + 1 })))
+      .toThrow('version: 新しい版');
+  });
+});
+
+describe('migrateProject', () => {
+  const migrations = {
+    1: (doc: Record<string, unknown>) => ({ ...doc, steps: [...(doc.steps as number[]), 1] }),
+    2: (doc: Record<string, unknown>) => ({ ...doc, steps: [...(doc.steps as number[]), 2] }),
+  };
+
+  it('古い版から 1 つずつ順に変換する', () => {
+    expect(migrateProject({ steps: [] }, 1, migrations, 3)).toEqual({ steps: [1, 2] });
+    expect(migrateProject({ steps: [] }, 2, migrations, 3)).toEqual({ steps: [2] });
+  });
+
+  it('今の版のデータはそのまま返す', () => {
+    const doc = { steps: [] };
+    expect(migrateProject(doc, 3, migrations, 3)).toBe(doc);
+  });
+
+  it('途中の変換が欠けていたらエラーにする', () => {
+    expect(() => migrateProject({ steps: [] }, 1, { 1: migrations[1] }, 3)).toThrow(ValidationError);
+    expect(() => migrateProject({ steps: [] }, 1, { 1: migrations[1] }, 3)).toThrow('版 2 からの変換がありません');
+  });
+});
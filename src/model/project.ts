@@ -0,0 +1,160 @@
+import {
+  clampExportSide, DEFAULT_EXPORT_SETTINGS, EXPORT_MULTIPLIERS, EXPORT_SIZE_PRESETS, MAX_TRIM_PADDING, type ExportSettings,
+} from '../export/settings';
+import type { Background } from '../render/types';
+import {
+  ANIMATION_FPS, ANIMATION_SCALES, DEFAULT_ANIMATION, EASINGS, EFFECT_TYPES, MAX_ANIMATION_LENGTH, MAX_ANIMATION_LOOP,
+  type AnimationEffect, type AnimationSettings,
+} from './animation';
+import { DEFAULT_BACKGROUND } from './background';
+import { createId } from './ids';
+import { DEFAULT_TEXT_STYLE, type TextLayer } from './layers';
+import { parseBackground, parseTextStyle } from './schema';
+import {
+  asArray, asBoolean, asColor, asEnum, asNumber, asObject, asString, join, optional, ValidationError, type JsonObject, type Parser,
+} from './validate';
+
+// プロジェクトファイル（.json）：1 枚のタイトルを再現するのに必要なものをすべて持つ
+// 形を変えたら PROJECT_VERSION を上げ、MIGRATIONS に 1 つ前の版からの変換を足す
+// 項目を足すだけなら、読み込み側の既定値（optional）で古いファイルも開けるので版は上げない
+
+export const PROJECT_FORMAT = 'text-decorator-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.json';
+
+export type ProjectDocument = {
+  layers: TextLayer[];
+  exportSettings: ExportSettings;
+  background: Background;       // 画像も data URI のまま含める
+  animation: AnimationSettings;
+};
+
+type ProjectFile = ProjectDocument & {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;              // ISO 8601
+};
+
+// MIGRATIONS[n] は版 n のデータを版 n + 1 の形に直す
+// 例）版 2 でレイヤーに blendMode を足したら MIGRATIONS[1] = (doc) => ({ ...doc, layers: ... })
+export type ProjectMigrations = Record<number, (doc: JsonObject) => JsonObject>;
+
+const MIGRATIONS: ProjectMigrations = {};
+
+// 版 version のデータを target の版まで 1 つずつ変換する
+export function migrateProject(doc: JsonObject, version: number, migrations = MIGRATIONS, target = PROJECT_VERSION): JsonObject {
+  for (let v = version; v < target; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new ValidationError('version', `版 ${v} からの変換がありません`);
+    doc = migrate(doc);
+  }
+  return doc;
+}
+
+// indent を 0 にすると改行なしで書き出す（共有リンク用）
+export function serializeProject(project: ProjectDocument, now = new Date(), indent = 2): string {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: now.toISOString(),
+    ...project,
+  };
+  return JSON.stringify(file, null, indent);
+}
+
+const parseLayer: Parser<TextLayer> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    id: optional(obj, 'id', path, asString, createId('layer')),
+    text: asString(obj.text, join(path, 'text')),
+    style: parseTextStyle(obj.style, join(path, 'style'), DEFAULT_TEXT_STYLE),
+    offsetX: optional(obj, 'offsetX', path, asNumber, 0),
+    offsetY: optional(obj, 'offsetY', path, asNumber, 0),
+    visible: optional(obj, 'visible', path, asBoolean, true),
+    locked: optional(obj, 'locked', path, asBoolean, false),
+    presetName: obj.presetName === null ? null : optional(obj, 'presetName', path, asString, null),
+  };
+};
+
+function parseExportSettings(value: unknown, path: string): ExportSettings {
+  const obj = asObject(value, path);
+  const base = DEFAULT_EXPORT_SETTINGS;
+  const presetIds = [...EXPORT_SIZE_PRESETS.map(preset => preset.id), 'custom' as const];
+  return {
+    sizePreset: optional(obj, 'sizePreset', path, (v, p) => asEnum(v, p, presetIds), base.sizePreset),
+    width: clampExportSide(optional(obj, 'width', path, asNumber, base.width)),
+    height: clampExportSide(optional(obj, 'height', path, asNumber, base.height)),
+    multiplier: optional(obj, 'multiplier', path, (v, p) => asEnum(v, p, EXPORT_MULTIPLIERS), base.multiplier),
+    svgFonts: optional(obj, 'svgFonts', path, (v, p) => asEnum(v, p, ['embed', 'reference', 'none'] as const), base.svgFonts),
+    format: optional(obj, 'format', path, (v, p) => asEnum(v, p, ['png', 'jpeg', 'webp'] as const), base.format),
+    quality: optional(obj, 'quality', path, (v, p) => asNumber(v, p, { min: 0, max: 1 }), base.quality),
+    matteColor: optional(obj, 'matteColor', path, asColor, base.matteColor),
+    trim: optional(obj, 'trim', path, asBoolean, base.trim),
+    trimPadding: optional(obj, 'trimPadding', path, (v, p) => asNumber(v, p, { min: 0, max: MAX_TRIM_PADDING }), base.trimPadding),
+    filenameTemplate: optional(obj, 'filenameTemplate', path, asString, base.filenameTemplate),
+  };
+}
+
+const parseEffect: Parser<AnimationEffect> = (value, path) => {
+  const obj = asObject(value, path);
+  const type = asEnum(obj.type, join(path, 'type'), EFFECT_TYPES.map(info => info.type));
+  const info = EFFECT_TYPES.find(entry => entry.type === type)!;
+  const { min, max } = info.strength;
+  return {
+    id: optional(obj, 'id', path, asString, createId('effect')),
+    type,
+    layerId: obj.layerId === null ? null : optional(obj, 'layerId', path, asString, null),
+    start: optional(obj, 'start', path, (v, p) => asNumber(v, p, { min: 0, max: MAX_ANIMATION_LENGTH }), 0),
+    duration: optional(obj, 'duration', path, (v, p) => asNumber(v, p, { min: 0, max: MAX_ANIMATION_LENGTH }), info.duration),
+    easing: optional(obj, 'easing', path, (v, p) => asEnum(v, p, EASINGS.map(entry => entry.easing)), info.easing),
+    strength: optional(obj, 'strength', path, (v, p) => asNumber(v, p, { min, max }), info.strength.value),
+  };
+};
+
+function parseAnimation(value: unknown, path: string): AnimationSettings {
+  const obj = asObject(value, path);
+  const base = DEFAULT_ANIMATION;
+  return {
+    effects: optional(obj, 'effects', path, (v, p) => asArray(v, p, parseEffect), base.effects),
+    length: optional(obj, 'length', path, (v, p) => asNumber(v, p, { min: 0.1, max: MAX_ANIMATION_LENGTH }), base.length),
+    fps: optional(obj, 'fps', path, (v, p) => asEnum(v, p, ANIMATION_FPS), base.fps),
+    loop: optional(obj, 'loop', path, (v, p) => Math.round(asNumber(v, p, { min: 0, max: MAX_ANIMATION_LOOP })), base.loop),
+    scale: optional(obj, 'scale', path, (v, p) => asEnum(v, p, ANIMATION_SCALES), base.scale),
+  };
+}
+
+// JSON 文字列を検査して読み込む。読めないときは ValidationError（message は画面にそのまま出せる）
+export function parseProject(json: string): ProjectDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ValidationError('', 'JSON として読み込めません。ファイルが壊れていないか確認してください');
+  }
+
+  const doc = asObject(raw, '');
+  if (doc.format !== PROJECT_FORMAT) {
+    throw new ValidationError('format', 'このアプリのプロジェクトファイルではありません');
+  }
+  const version = asNumber(doc.version, 'version', { min: 1 });
+  if (!Number.isInteger(version)) throw new ValidationError('version', `不正な版番号です（${version}）`);
+  if (version > PROJECT_VERSION) {
+    throw new ValidationError('version', `新しい版（${version}）のファイルです。アプリを更新してから開いてください`);
+  }
+
+  const current = migrateProject(doc, version);
+
+  // id が重なっていると選択や一覧が壊れるので振り直す
+  const seen = new Set<string>();
+  const layers = optional(current, 'layers', '', (v, p) => asArray(v, p, parseLayer), []).map(layer => {
+    const id = seen.has(layer.id) ? createId('layer') : layer.id;
+    seen.add(id);
+    return id === layer.id ? layer : { ...layer, id };
+  });
+  return {
+    layers,
+    exportSettings: optional(current, 'exportSettings', '', parseExportSettings, DEFAULT_EXPORT_SETTINGS),
+    background: optional(current, 'background', '', (v, p) => parseBackground(v, p, DEFAULT_BACKGROUND), DEFAULT_BACKGROUND),
+    animation: optional(current, 'animation', '', parseAnimation, DEFAULT_ANIMATION),
+  };
+}
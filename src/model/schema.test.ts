@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BACKGROUND } from './background';
+import { DEFAULT_TEXT_STYLE } from './layers';
+import { parseBackground, parseGradientStop, parseShadow, parseStroke, parseTextStyle } from './schema';
+import { ValidationError } from './validate';
+
+describe('色の検査', () => {
+  it('#RGB / #RRGGBB の色はそのまま読む', () => {
+    expect(parseTextStyle({ textColor: '#0af' }, 'style', DEFAULT_TEXT_STYLE).textColor).toBe('#0af');
+    expect(parseStroke({ color: '#00AAFF' }, 'stroke').color).toBe('#00AAFF');
+  });
+
+  it.each([
+    ['style.textColor', () => parseTextStyle({ textColor: 'banana' }, 'style', DEFAULT_TEXT_STYLE)],
+    ['style.strokes[0].color', () => parseTextStyle({ strokes: [{ color: 'red' }] }, 'style', DEFAULT_TEXT_STYLE)],
+    ['shadow.color', () => parseShadow({ color: '#12' }, 'shadow')],
+    ['stop.color', () => parseGradientStop({ offset: 0, color: 'rgb(0, 0, 0)' }, 'stop')],
+    ['background.color', () => parseBackground({ color: '#ff00ff00' }, 'background', DEFAULT_BACKGROUND)],
+  ])('%s が色でなければ位置付きのエラーにする', (path, parse) => {
+    expect(parse).toThrow(ValidationError);
+    expect(parse).toThrow(`${path}: #RGB か #RRGGBB の色が必要です`);
+  });
+});
@@ -0,0 +1,158 @@
+import type {
+  AutoFit, Background, BackgroundImage, Gradient, GradientStop, Rect, ShadowEntry, StrokeEntry, TextStyle, TextTransform,
+} from '../render/types';
+import { createStroke } from './strokes';
+import { createShadow } from './shadows';
+import { asArray, asBoolean, asColor, asEnum, asNumber, asObject, asString, optional, ValidationError, type Parser } from './validate';
+
+// スタイルまわりの JSON を検査して型付きの値に直す（プロジェクトファイル・プリセットで共通）
+// 足りない項目は既定値で埋めるので、項目を増やしても古いデータを読める
+
+const unit = { min: 0, max: 1 };
+
+export const parseGradientStop: Parser<GradientStop> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    offset: asNumber(obj.offset, `${path}.offset`, unit),
+    color: asColor(obj.color, `${path}.color`),
+    alpha: optional(obj, 'alpha', path, (v, p) => asNumber(v, p, unit), 1),
+  };
+};
+
+export function parseGradient(value: unknown, path: string, fallback: Gradient): Gradient {
+  const obj = asObject(value, path);
+  const stops = optional(obj, 'stops', path, (v, p) => asArray(v, p, parseGradientStop), fallback.stops);
+  if (stops.length === 0) throw new ValidationError(`${path}.stops`, '色を 1 つ以上指定してください');
+  return {
+    type: optional(obj, 'type', path, (v, p) => asEnum(v, p, ['linear', 'radial'] as const), fallback.type),
+    angle: optional(obj, 'angle', path, asNumber, fallback.angle),
+    scope: optional(obj, 'scope', path, (v, p) => asEnum(v, p, ['line', 'char', 'block'] as const), fallback.scope),
+    stops,
+  };
+}
+
+export const parseStroke: Parser<StrokeEntry> = (value, path) => {
+  const obj = asObject(value, path);
+  const base = createStroke();
+  return {
+    // id は読み込み側で振り直しても困らないので、なければ新しく作る
+    id: optional(obj, 'id', path, asString, base.id),
+    colorType: optional(obj, 'colorType', path, (v, p) => asEnum(v, p, ['solid', 'gradient'] as const), base.colorType),
+    color: optional(obj, 'color', path, asColor, base.color),
+    gradient: optional(obj, 'gradient', path, (v, p) => parseGradient(v, p, base.gradient), base.gradient),
+    width: optional(obj, 'width', path, (v, p) => asNumber(v, p, { min: 0 }), base.width),
+    join: optional(obj, 'join', path, (v, p) => asEnum(v, p, ['round', 'miter', 'bevel'] as const), base.join),
+    opacity: optional(obj, 'opacity', path, (v, p) => asNumber(v, p, unit), base.opacity),
+    blur: optional(obj, 'blur', path, (v, p) => asNumber(v, p, { min: 0 }), base.blur),
+  };
+};
+
+export const parseShadow: Parser<ShadowEntry> = (value, path) => {
+  const obj = asObject(value, path);
+  const base = createShadow();
+  return {
+    id: optional(obj, 'id', path, asString, base.id),
+    enabled: optional(obj, 'enabled', path, asBoolean, base.enabled),
+    mode: optional(obj, 'mode', path, (v, p) => asEnum(v, p, ['shadow', 'glow'] as const), base.mode),
+    color: optional(obj, 'color', path, asColor, base.color),
+    opacity: optional(obj, 'opacity', path, (v, p) => asNumber(v, p, unit), base.opacity),
+    offsetX: optional(obj, 'offsetX', path, asNumber, base.offsetX),
+    offsetY: optional(obj, 'offsetY', path, asNumber, base.offsetY),
+    blur: optional(obj, 'blur', path, (v, p) => asNumber(v, p, { min: 0 }), base.blur),
+    spread: optional(obj, 'spread', path, (v, p) => asNumber(v, p, { min: 0 }), base.spread),
+    placement: optional(obj, 'placement', path,
+      (v, p) => asEnum(v, p, ['behindStrokes', 'behindFill'] as const), base.placement),
+  };
+};
+
+export function parseTransform(value: unknown, path: string, fallback: TextTransform): TextTransform {
+  const obj = asObject(value, path);
+  return {
+    rotation: optional(obj, 'rotation', path, asNumber, fallback.rotation),
+    skewX: optional(obj, 'skewX', path, (v, p) => asNumber(v, p, { min: -89, max: 89 }), fallback.skewX),
+    scaleX: optional(obj, 'scaleX', path, (v, p) => asNumber(v, p, { min: 0.01 }), fallback.scaleX),
+    scaleY: optional(obj, 'scaleY', path, (v, p) => asNumber(v, p, { min: 0.01 }), fallback.scaleY),
+    warp: optional(obj, 'warp', path,
+      (v, p) => asEnum(v, p, ['none', 'arcUp', 'arcDown', 'wave', 'bulge', 'perspective'] as const), fallback.warp),
+    warpStrength: optional(obj, 'warpStrength', path, (v, p) => asNumber(v, p, { min: -100, max: 100 }), fallback.warpStrength),
+  };
+}
+
+export function parseAutoFit(value: unknown, path: string, fallback: AutoFit): AutoFit {
+  const obj = asObject(value, path);
+  return {
+    mode: optional(obj, 'mode', path, (v, p) => asEnum(v, p, ['off', 'lines', 'block'] as const), fallback.mode),
+    maxWidth: optional(obj, 'maxWidth', path, (v, p) => asNumber(v, p, { min: 1 }), fallback.maxWidth),
+    maxHeight: optional(obj, 'maxHeight', path, (v, p) => asNumber(v, p, { min: 1 }), fallback.maxHeight),
+  };
+}
+
+// base にない項目も含め、TextStyle のすべての項目を検査する
+export function parseTextStyle(value: unknown, path: string, base: TextStyle): TextStyle {
+  const obj = asObject(value, path);
+  return {
+    fontFamily: optional(obj, 'fontFamily', path, asString, base.fontFamily),
+    fontWeight: optional(obj, 'fontWeight', path, (v, p) => asNumber(v, p, { min: 1, max: 1000 }), base.fontWeight),
+    fontStyle: optional(obj, 'fontStyle', path, (v, p) => asEnum(v, p, ['normal', 'italic'] as const), base.fontStyle),
+    fontSize: optional(obj, 'fontSize', path, (v, p) => asNumber(v, p, { min: 1 }), base.fontSize),
+    lineHeight: optional(obj, 'lineHeight', path, (v, p) => asNumber(v, p, { min: 0 }), base.lineHeight),
+    letterSpacing: optional(obj, 'letterSpacing', path, asNumber, base.letterSpacing),
+    textAlign: optional(obj, 'textAlign', path, (v, p) => asEnum(v, p, ['start', 'center', 'end'] as const), base.textAlign),
+    lineScales: optional(obj, 'lineScales', path,
+      (v, p) => asArray(v, p, (item, itemPath) => asNumber(item, itemPath, { min: 0.01 })), base.lineScales),
+    autoFit: optional(obj, 'autoFit', path, (v, p) => parseAutoFit(v, p, base.autoFit), base.autoFit),
+    writingMode: optional(obj, 'writingMode', path,
+      (v, p) => asEnum(v, p, ['horizontal', 'vertical'] as const), base.writingMode),
+    textColorType: optional(obj, 'textColorType', path,
+      (v, p) => asEnum(v, p, ['solid', 'gradient'] as const), base.textColorType),
+    textColor: optional(obj, 'textColor', path, asColor, base.textColor),
+    textGradient: optional(obj, 'textGradient', path, (v, p) => parseGradient(v, p, base.textGradient), base.textGradient),
+    strokes: optional(obj, 'strokes', path, (v, p) => asArray(v, p, parseStroke), base.strokes),
+    shadows: optional(obj, 'shadows', path, (v, p) => asArray(v, p, parseShadow), base.shadows),
+    transform: optional(obj, 'transform', path, (v, p) => parseTransform(v, p, base.transform), base.transform),
+  };
+}
+
+const parseBackgroundImage: Parser<BackgroundImage> = (value, path) => {
+  const obj = asObject(value, path);
+  const src = asString(obj.src, `${path}.src`);
+  if (!src.startsWith('data:image/')) throw new ValidationError(`${path}.src`, '画像の data URI が必要です');
+  return {
+    src,
+    width: asNumber(obj.width, `${path}.width`, { min: 1 }),
+    height: asNumber(obj.height, `${path}.height`, { min: 1 }),
+    name: optional(obj, 'name', path, asString, ''),
+  };
+};
+
+function parseCrop(value: unknown, path: string, fallback: Rect): Rect {
+  const obj = asObject(value, path);
+  const crop = {
+    x: optional(obj, 'x', path, (v, p) => asNumber(v, p, unit), fallback.x),
+    y: optional(obj, 'y', path, (v, p) => asNumber(v, p, unit), fallback.y),
+    width: optional(obj, 'width', path, (v, p) => asNumber(v, p, { min: 0.01, max: 1 }), fallback.width),
+    height: optional(obj, 'height', path, (v, p) => asNumber(v, p, { min: 0.01, max: 1 }), fallback.height),
+  };
+  // スライダーの刻みで出る誤差は許す
+  if (crop.x + crop.width > 1 + 1e-6 || crop.y + crop.height > 1 + 1e-6) {
+    throw new ValidationError(path, '切り抜き範囲が画像の外に出ています');
+  }
+  return crop;
+}
+
+export function parseBackground(value: unknown, path: string, base: Background): Background {
+  const obj = asObject(value, path);
+  return {
+    type: optional(obj, 'type', path, (v, p) => asEnum(v, p, ['none', 'solid', 'gradient', 'image'] as const), base.type),
+    color: optional(obj, 'color', path, asColor, base.color),
+    gradient: optional(obj, 'gradient', path, (v, p) => parseGradient(v, p, base.gradient), base.gradient),
+    image: obj.image === null ? null : optional(obj, 'image', path, parseBackgroundImage, base.image),
+    fit: optional(obj, 'fit', path, (v, p) => asEnum(v, p, ['cover', 'contain', 'crop'] as const), base.fit),
+    positionX: optional(obj, 'positionX', path, (v, p) => asNumber(v, p, unit), base.positionX),
+    positionY: optional(obj, 'positionY', path, (v, p) => asNumber(v, p, unit), base.positionY),
+    crop: optional(obj, 'crop', path, (v, p) => parseCrop(v, p, base.crop), base.crop),
+    blur: optional(obj, 'blur', path, (v, p) => asNumber(v, p, { min: 0 }), base.blur),
+    darken: optional(obj, 'darken', path, (v, p) => asNumber(v, p, unit), base.darken),
+    includeInExport: optional(obj, 'includeInExport', path, asBoolean, base.includeInExport),
+  };
+}
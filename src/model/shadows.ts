@@ -0,0 +1,54 @@
+import type { ShadowEntry } from '../render/types';
+import { createId } from './ids';
+
+export function createShadow(partial: Partial<Omit<ShadowEntry, 'id'>> = {}): ShadowEntry {
+  return {
+    enabled: true,
+    mode: 'shadow',
+    color: '#000000',
+    opacity: 0.6,
+    offsetX: 8,
+    offsetY: 8,
+    blur: 10,
+    spread: 0,
+    placement: 'behindStrokes',
+    ...partial,
+    id: createId('shadow'),
+  };
+}
+
+export function createGlow(partial: Partial<Omit<ShadowEntry, 'id'>> = {}): ShadowEntry {
+  return createShadow({
+    mode: 'glow',
+    color: '#00FFFF',
+    opacity: 0.9,
+    offsetX: 0,
+    offsetY: 0,
+    blur: 30,
+    ...partial,
+  });
+}
+
+// 旧形式（黒い影 1 つだけ）
+export type LegacyShadowFields = {
+  shadowEnabled?: boolean;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  shadowBlur?: number;
+  shadowOpacity?: number;
+};
+
+// 旧形式の影を影リストに変換する。旧フィールドが 1 つもなければ undefined
+export function migrateLegacyShadow(config: LegacyShadowFields): ShadowEntry[] | undefined {
+  const { shadowEnabled, shadowOffsetX, shadowOffsetY, shadowBlur, shadowOpacity } = config;
+  if ([shadowEnabled, shadowOffsetX, shadowOffsetY, shadowBlur, shadowOpacity].every(v => v === undefined)) {
+    return undefined;
+  }
+  return [createShadow({
+    enabled: shadowEnabled ?? true,
+    offsetX: shadowOffsetX ?? 8,
+    offsetY: shadowOffsetY ?? 8,
+    blur: shadowBlur ?? 10,
+    opacity: shadowOpacity ?? 0.6,
+  })];
+}
@@ -0,0 +1,81 @@
+import { parseProject, serializeProject, type ProjectDocument } from './project';
+import { ValidationError } from './validate';
+
+// 共有リンク：プロジェクトファイルと同じ JSON を圧縮して URL の # 以降に入れる
+// 中身はプロジェクトファイルそのものなので、古いリンクも parseProject の変換で読める
+// 背景画像はリンクが長くなりすぎるので含めない
+
+const HASH_KEY = 'd';
+
+// 展開後の上限（壊れた・悪意のあるリンクで固まらないように）
+const MAX_DECODED_BYTES = 2_000_000;
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+// バイト列を圧縮・展開のストリームに通す（limit を超えたら打ち切る）
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream, limit = Infinity) {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new ValidationError('', 'リンクのデータが大きすぎます');
+    }
+    chunks.push(value);
+  }
+  const result = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+// 共有できる形に直す（背景画像を外し、画像の背景は余白の色の単色にする）
+export function shareableProject(project: ProjectDocument): ProjectDocument {
+  const { background } = project;
+  if (!background.image) return project;
+  return {
+    ...project,
+    background: { ...background, image: null, type: background.type === 'image' ? 'solid' : background.type },
+  };
+}
+
+// '#d=…' を返す
+export async function encodeShareHash(project: ProjectDocument) {
+  const json = serializeProject(shareableProject(project), new Date(), 0);
+  const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `#${HASH_KEY}=${toBase64Url(compressed)}`;
+}
+
+// 共有データがなければ null。壊れている・読めない版なら ValidationError（message は画面にそのまま出せる）
+export async function decodeShareHash(hash: string): Promise<ProjectDocument | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const data = params.get(HASH_KEY);
+  if (data === null) return null;
+
+  let json: string;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(data), new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    json = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (error) {
+    if (error instanceof ValidationError) throw error;
+    throw new ValidationError('', 'リンクが途中で切れているか、壊れています');
+  }
+  return parseProject(json);
+}
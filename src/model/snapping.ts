@@ -0,0 +1,38 @@
+import type { Rect } from '../render/types';
+
+// ドラッグ中のレイヤーをキャンバスの中央・三分割の線に吸着させる
+// 座標はすべて出力サイズ基準（プレビューの拡大率に左右されない）
+
+export type SnapGuides = {
+  x: number[];                  // 吸着した縦線の x
+  y: number[];                  // 吸着した横線の y
+};
+
+export const NO_GUIDES: SnapGuides = { x: [], y: [] };
+
+// 吸着する線（中央を先に並べ、同じ距離なら中央を優先する）
+export const snapLines = (size: number) => [size / 2, size / 3, (size * 2) / 3];
+
+// 1 軸分：箱の始端・中央・終端のうち、一番近い線に合わせる移動量
+function snapAxis(start: number, length: number, size: number, threshold: number) {
+  const edges = [start + length / 2, start, start + length];
+  let best: { delta: number; line: number } | null = null;
+  for (const line of snapLines(size)) {
+    for (const edge of edges) {
+      const delta = line - edge;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) best = { delta, line };
+    }
+  }
+  return best;
+}
+
+// threshold は出力サイズ基準の距離（画面上で一定になるよう、呼び出し側で拡大率から求める）
+export function snapRect(rect: Rect, width: number, height: number, threshold: number) {
+  const x = snapAxis(rect.x, rect.width, width, threshold);
+  const y = snapAxis(rect.y, rect.height, height, threshold);
+  return {
+    dx: x?.delta ?? 0,
+    dy: y?.delta ?? 0,
+    guides: { x: x ? [x.line] : [], y: y ? [y.line] : [] },
+  };
+}
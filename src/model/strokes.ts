@@ -0,0 +1,48 @@
+import type { StrokeEntry } from '../render/types';
+import { createId } from './ids';
+import { twoStopGradient } from '../render/gradient';
+
+export function createStroke(partial: Partial<Omit<StrokeEntry, 'id'>> = {}): StrokeEntry {
+  return {
+    colorType: 'solid',
+    color: '#000000',
+    gradient: twoStopGradient('#FFFFFF', '#000000'),
+    width: 8,
+    join: 'round',
+    opacity: 1,
+    blur: 0,
+    ...partial,
+    id: createId('stroke'),
+  };
+}
+
+// 旧形式（border1 = 内側 / border2 = 外側の 2 本固定）
+export type LegacyBorderFields = {
+  border1Color?: string;
+  border1Width?: number;
+  border2Color?: string;
+  border2Width?: number;
+};
+
+// 旧形式の 2 本の縁を、見た目を変えずに縁取りリストへ変換する
+// 旧フィールドが 1 つもなければ undefined（＝縁取りは変更しない）
+export function migrateLegacyBorders(config: LegacyBorderFields): StrokeEntry[] | undefined {
+  const { border1Color, border1Width, border2Color, border2Width } = config;
+  if ([border1Color, border1Width, border2Color, border2Width].every(v => v === undefined)) {
+    return undefined;
+  }
+  return [
+    createStroke({ color: border1Color ?? '#FFFFFF', width: border1Width ?? 0 }),
+    createStroke({ color: border2Color ?? '#000000', width: border2Width ?? 0 }),
+  ];
+}
+
+
+// 縁取りのグラデーションが 2 色 + 角度だけだった頃の形式
+type LegacyStrokeGradient = { start: string; end: string; angle: number };
+
+export function migrateStroke(stroke: Omit<StrokeEntry, 'gradient'> & { gradient: StrokeEntry['gradient'] | LegacyStrokeGradient }): StrokeEntry {
+  const { gradient } = stroke;
+  if ('stops' in gradient) return { ...stroke, gradient };
+  return { ...stroke, gradient: twoStopGradient(gradient.start, gradient.end, gradient.angle) };
+}
@@ -0,0 +1,73 @@
+import { isHexColor } from '../render/gradient';
+
+// 読み込んだ JSON の検査
+// path はエラーメッセージに出す位置（例: layers[0].style.fontSize）
+
+export class ValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+export type JsonObject = Record<string, unknown>;
+export type Parser<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? '配列' : typeof value;
+
+export const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export function asObject(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(path, `オブジェクトが必要です（${describe(value)} でした）`);
+  }
+  return value as JsonObject;
+}
+
+export function asArray<T>(value: unknown, path: string, item: Parser<T>): T[] {
+  if (!Array.isArray(value)) throw new ValidationError(path, `配列が必要です（${describe(value)} でした）`);
+  return value.map((entry, index) => item(entry, join(path, index)));
+}
+
+export function asString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new ValidationError(path, `文字列が必要です（${describe(value)} でした）`);
+  return value;
+}
+
+// 色は #RGB / #RRGGBB だけを受け付ける（描画先で黒になったり前の色が残ったりしないように）
+export function asColor(value: unknown, path: string): string {
+  const color = asString(value, path);
+  if (!isHexColor(color)) throw new ValidationError(path, `#RGB か #RRGGBB の色が必要です（${JSON.stringify(color)}）`);
+  return color;
+}
+
+export function asBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new ValidationError(path, `true / false が必要です（${describe(value)} でした）`);
+  return value;
+}
+
+export function asNumber(value: unknown, path: string, range: { min?: number; max?: number } = {}): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(path, `数値が必要です（${describe(value)} でした）`);
+  }
+  if (range.min !== undefined && value < range.min) throw new ValidationError(path, `${range.min} 以上の値が必要です（${value}）`);
+  if (range.max !== undefined && value > range.max) throw new ValidationError(path, `${range.max} 以下の値が必要です（${value}）`);
+  return value;
+}
+
+export function asEnum<T extends string | number>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) {
+    throw new ValidationError(path, `${options.map(option => JSON.stringify(option)).join(' / ')} のいずれかが必要です（${JSON.stringify(value)}）`);
+  }
+  return value as T;
+}
+
+// キーがなければ fallback、あれば parse で検査する（新しい項目を足しても古いファイルを読めるように）
+export function optional<T>(obj: JsonObject, key: string, path: string, parse: Parser<T>, fallback: T): T {
+  return obj[key] === undefined ? fallback : parse(obj[key], join(path, key));
+}
@@ -0,0 +1,62 @@
+// プレビューの拡大・スクロール（表示だけの状態で、書き出しには影響しない）
+// zoom 1 は出力サイズ全体がプレビュー枠に収まる大きさ。pan は画面上の px
+
+export type PreviewView = {
+  zoom: number;
+  panX: number;
+  panY: number;
+};
+
+export const FIT_VIEW: PreviewView = { zoom: 1, panX: 0, panY: 0 };
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 8;
+export const ZOOM_STEP = 1.25;
+
+export type PreviewViewport = {
+  canvasWidth: number;          // キャンバス要素の大きさ（枠より大きくしない）
+  canvasHeight: number;
+  docWidth: number;             // 拡大後の出力サイズ全体の大きさ
+  docHeight: number;
+  originX: number;              // キャンバス上での出力サイズの左上
+  originY: number;
+  view: PreviewView;            // 見えない所までスクロールしないよう制限したもの
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampZoom = (zoom: number) => clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+
+// fitted は zoom 1 のときの大きさ、box はプレビュー枠の大きさ
+// 拡大して枠からはみ出す向きだけキャンバスを枠の大きさに留め、その範囲でスクロールできる
+export function layoutViewport(fitted: { width: number; height: number }, box: { width: number; height: number },
+  view: PreviewView): PreviewViewport {
+  const docWidth = Math.max(1, Math.round(fitted.width * view.zoom));
+  const docHeight = Math.max(1, Math.round(fitted.height * view.zoom));
+  const canvasWidth = Math.max(1, Math.min(docWidth, Math.floor(box.width)));
+  const canvasHeight = Math.max(1, Math.min(docHeight, Math.floor(box.height)));
+  const maxPanX = (docWidth - canvasWidth) / 2;
+  const maxPanY = (docHeight - canvasHeight) / 2;
+  const panX = clamp(view.panX, -maxPanX, maxPanX);
+  const panY = clamp(view.panY, -maxPanY, maxPanY);
+  return {
+    canvasWidth,
+    canvasHeight,
+    docWidth,
+    docHeight,
+    originX: Math.round((canvasWidth - docWidth) / 2 + panX),
+    originY: Math.round((canvasHeight - docHeight) / 2 + panY),
+    view: { ...view, panX, panY },
+  };
+}
+
+// キャンバス上の点（キャンバスの中心からの距離）を動かさずに拡大率を変える
+export function zoomAround(view: PreviewView, zoom: number, pointX = 0, pointY = 0): PreviewView {
+  const next = clampZoom(zoom);
+  const ratio = next / view.zoom;
+  return {
+    zoom: next,
+    panX: pointX - (pointX - view.panX) * ratio,
+    panY: pointY - (pointY - view.panY) * ratio,
+  };
+}
@@ -0,0 +1,77 @@
+import { createCanvasGradient } from './renderDecoratedText';
+import type { Background, Rect, RenderOptions } from './types';
+
+// renderBackground が触る 2D コンテキストの範囲
+export type BackgroundContext = Pick<
+  CanvasRenderingContext2D,
+  | 'fillStyle'
+  | 'filter'
+  | 'save'
+  | 'restore'
+  | 'fillRect'
+  | 'drawImage'
+  | 'createLinearGradient'
+  | 'createRadialGradient'
+>;
+
+// 元画像全体を置く矩形（描画先のピクセル）。はみ出した部分は描画先の外で切れる
+export function backgroundImageRect(background: Background, imageWidth: number, imageHeight: number,
+  width: number, height: number): Rect {
+  if (background.fit === 'crop') {
+    // 切り抜き範囲が全面を覆う倍率で、範囲の中心を描画先の中心に合わせる
+    const { crop } = background;
+    const scale = Math.max(width / Math.max(1e-6, crop.width * imageWidth), height / Math.max(1e-6, crop.height * imageHeight));
+    return {
+      x: width / 2 - (crop.x + crop.width / 2) * imageWidth * scale,
+      y: height / 2 - (crop.y + crop.height / 2) * imageHeight * scale,
+      width: imageWidth * scale,
+      height: imageHeight * scale,
+    };
+  }
+
+  const fitScale = background.fit === 'cover' ? Math.max : Math.min;
+  const scale = fitScale(width / imageWidth, height / imageHeight);
+  const w = imageWidth * scale;
+  const h = imageHeight * scale;
+  return { x: (width - w) * background.positionX, y: (height - h) * background.positionY, width: w, height: h };
+}
+
+const fullBox = (options: RenderOptions) =>
+  ({ cx: options.width / 2, cy: options.height / 2, width: options.width, height: options.height });
+
+// 背景を描画先いっぱいに描く（image は読み込み済みの画像を渡す。まだなら余白の色だけ塗る）
+export function renderBackground(ctx: BackgroundContext, background: Background, image: CanvasImageSource | null,
+  options: RenderOptions) {
+  const { width, height } = options;
+  const scale = options.scale ?? 1;
+
+  ctx.save();
+  switch (background.type) {
+    case 'none':
+      break;
+    case 'solid':
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'gradient':
+      ctx.fillStyle = createCanvasGradient(ctx, background.gradient, fullBox(options));
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'image': {
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      if (image && background.image) {
+        const rect = backgroundImageRect(background, background.image.width, background.image.height, width, height);
+        if (background.blur > 0) ctx.filter = `blur(${background.blur * scale}px)`;
+        ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+        ctx.filter = 'none';
+      }
+      if (background.darken > 0) {
+        ctx.fillStyle = `rgba(0, 0, 0, ${background.darken})`;
+        ctx.fillRect(0, 0, width, height);
+      }
+      break;
+    }
+  }
+  ctx.restore();
+}
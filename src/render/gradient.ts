@@ -0,0 +1,65 @@
+import { applyToPoint, scaleFactor, type Matrix } from './matrix';
+import type { CenterBox, Gradient, GradientStop } from './types';
+
+export type GradientGeometry =
+  | { type: 'linear'; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'radial'; cx: number; cy: number; r: number };
+
+// 箱の中心を通り、angle 方向へ箱の幅・高さいっぱいに流れる（radial は中心から外接円まで）
+// 文字を座標変換して描くときは、toLocal（変換の逆行列）で描画側の座標に直す
+export function gradientGeometry(gradient: Gradient, box: CenterBox, toLocal?: Matrix): GradientGeometry {
+  const map = (x: number, y: number) => (toLocal ? applyToPoint(toLocal, x, y) : { x, y });
+
+  if (gradient.type === 'radial') {
+    const center = map(box.cx, box.cy);
+    const r = (Math.max(box.width, box.height) / 2) * (toLocal ? scaleFactor(toLocal) : 1);
+    return { type: 'radial', cx: center.x, cy: center.y, r };
+  }
+  const angleRad = (gradient.angle * Math.PI) / 180;
+  const dx = (box.width / 2) * Math.cos(angleRad);
+  const dy = (box.height / 2) * Math.sin(angleRad);
+  const p1 = map(box.cx - dx, box.cy - dy);
+  const p2 = map(box.cx + dx, box.cy + dy);
+  return { type: 'linear', x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y };
+}
+
+// 色として受け付ける書式（#RGB / #RRGGBB）。読み込み・インライン記法・CLI の検査で共通
+export const isHexColor = (color: string) => /^#(?:[0-9a-fA-F]{3}){1,2}$/.test(color);
+
+// #RGB / #RRGGBB に透明度を掛けた rgba() を返す（それ以外の書式はそのまま）
+export function colorWithAlpha(color: string, alpha: number) {
+  const hex = color.trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  if (!/^[0-9a-fA-F]{6}$/.test(full)) return color;
+  const r = parseInt(full.slice(0, 2), 16);
+  const g = parseInt(full.slice(2, 4), 16);
+  const b = parseInt(full.slice(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+export function sortedStops(stops: GradientStop[]) {
+  return [...stops].sort((a, b) => a.offset - b.offset);
+}
+
+// UI のプレビュー用（CSS の linear-gradient / radial-gradient）
+export function gradientToCss(gradient: Gradient) {
+  const stops = sortedStops(gradient.stops)
+    .map(stop => `${colorWithAlpha(stop.color, stop.alpha)} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+  return gradient.type === 'radial'
+    ? `radial-gradient(circle, ${stops})`
+    : `linear-gradient(${gradient.angle + 90}deg, ${stops})`;
+}
+
+// 2 色 + 角度だけの単純なグラデーション（旧形式の変換や初期値に使う）
+export function twoStopGradient(start: string, end: string, angle = 90): Gradient {
+  return {
+    type: 'linear',
+    angle,
+    scope: 'line',
+    stops: [
+      { offset: 0, color: start, alpha: 1 },
+      { offset: 1, color: end, alpha: 1 },
+    ],
+  };
+}
@@ -0,0 +1,441 @@
+import { applyToPoint, compose, IDENTITY, invert, multiply, rotation, scaling, translation, type Matrix } from './matrix';
+import { parseMarkup, type TextRun } from './markup';
+import type { CenterBox, DrawingContext, Rect, RenderOptions, StrokeEntry, TextSpec, TextStyle, TextTransform } from './types';
+import { blockTransform, glyphWarp, hasGlyphWarp } from './warp';
+
+// 文字列の幅を測る関数（canvas では measureText、Node では近似値）
+export type TextMeasurer = (text: string, font: string) => number;
+
+// 描画の単位（横書きでは同じ書式の並び、縦書きでは 1 文字または縦中横のまとまり。ルビも 1 単位）
+// matrix はローカル座標の原点（文字の中心）をキャンバス座標へ移す変換
+// flatMatrix は変形（warp・回転など）を掛ける前の配置。グラデーションや box はこちらの座標で考える
+export type Segment = {
+  text: string;
+  matrix: Matrix;
+  flatMatrix: Matrix;
+  box: CenterBox;               // 変形前のキャンバス座標での箱（文字ごとのグラデーション用）
+  font: string;
+  fontSize: number;
+  color?: string;               // インライン記法で指定した塗りの色
+};
+
+export type LineLayout = {
+  text: string;                 // 記法を取り除いた行の文字列
+  box: CenterBox;               // 行（縦書きでは列）の箱
+  segments: Segment[];
+};
+
+export type TextLayout = {
+  font: string;                 // ctx.font に渡す文字列（インライン記法で変えていない部分）
+  fontSize: number;             // 倍率適用後
+  vertical: boolean;
+  lines: LineLayout[];
+  block: Rect;                  // 変形前の全行を囲む矩形（縁取りは含まない）
+  bounds: Rect;                 // 変形後の外接矩形（当たり判定用）
+};
+
+// 変形を掛ける前の配置
+type FlatSegment = Omit<Segment, 'flatMatrix'>;
+type FlatLayout = Omit<TextLayout, 'lines' | 'bounds'> & {
+  lines: (Omit<LineLayout, 'segments'> & { segments: FlatSegment[] })[];
+};
+
+export function canvasMeasurer(ctx: DrawingContext): TextMeasurer {
+  return (text, font) => {
+    if (ctx.font !== font) ctx.font = font;
+    return ctx.measureText(text).width;
+  };
+}
+
+// 全角（東アジアの幅広文字）とみなす範囲
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]|[\u{20000}-\u{3FFFD}]/u;
+
+// フォントを読めない環境向けの近似：全角は 1em、半角は 0.55em
+export const approximateMeasurer: TextMeasurer = (text, font) => {
+  const size = parseFloat(font) || 16;
+  let width = 0;
+  for (const ch of text) {
+    width += WIDE_CHAR.test(ch)
+      ? size
+      : size * 0.55;
+  }
+  return width;
+};
+
+// ---- 縦書き ----
+
+// 小書きの仮名：枠の右上に寄せる
+const SMALL_KANA = /[ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰ-ㇿ]/;
+// 句読点：横書きでは左下、縦書きでは右上に置く
+const PUNCTUATION = /[、。，．､｡]/;
+// 縦書きで 90° 回す記号（長音・ダッシュ・括弧類など）
+const ROTATED = /[ー－―—‐～〜…‥＿＝（）「」『』【】〈〉《》〔〕［］｛｝：；｜→←]/;
+// 縦中横にする半角の並び（2〜3 桁の数字、!! / !? など）
+const TATE_CHU_YOKO = /^(?:[0-9]{1,3}|[!?]{1,2})$/;
+
+type VerticalToken = { text: string; kind: 'upright' | 'small' | 'punct' | 'rotated' | 'tcy' | 'sideways' | 'space' };
+
+function tokenizeVertical(text: string): VerticalToken[] {
+  const tokens: VerticalToken[] = [];
+  // 半角英数字の並びはまとめて扱い、それ以外は 1 文字ずつ
+  const re = /[0-9]+|[!?]+|[\x21-\x7E]+| |[\s\S]/gu;
+  for (const [chunk] of text.matchAll(re)) {
+    if (chunk === ' ') tokens.push({ text: chunk, kind: 'space' });
+    else if (TATE_CHU_YOKO.test(chunk)) tokens.push({ text: chunk, kind: 'tcy' });
+    else if (/^[\x21-\x7E]+$/.test(chunk)) tokens.push({ text: chunk, kind: 'sideways' });
+    else if (SMALL_KANA.test(chunk)) tokens.push({ text: chunk, kind: 'small' });
+    else if (PUNCTUATION.test(chunk)) tokens.push({ text: chunk, kind: 'punct' });
+    else if (ROTATED.test(chunk)) tokens.push({ text: chunk, kind: 'rotated' });
+    else tokens.push({ text: chunk, kind: 'upright' });
+  }
+  return tokens;
+}
+
+type PlacedGlyph = { text: string; offset: number; advance: number; local: Matrix };
+
+// 1 列分の文字を上から並べる。列の長さと、列の上端を 0 とした各文字の配置を返す
+// spacing は文字の後ろに空ける量（末尾の文字の後ろにも付くので、呼び出し側で必要なら差し引く）
+function layoutColumn(measure: TextMeasurer, text: string, font: string, fontSize: number, spacing = 0) {
+  const placed: PlacedGlyph[] = [];
+  let length = 0;
+
+  tokenizeVertical(text).forEach(token => {
+    let advance = fontSize;
+    let local: Matrix = translation(0, 0);
+
+    switch (token.kind) {
+      case 'space':
+        advance = fontSize / 2;
+        break;
+      case 'small':
+        local = translation(fontSize * 0.1, -fontSize * 0.1);
+        break;
+      case 'punct':
+        local = translation(fontSize * 0.5, -fontSize * 0.5);
+        break;
+      case 'rotated':
+        local = rotation(Math.PI / 2);
+        break;
+      case 'tcy': {
+        // 1 文字分の幅に収まるよう横方向だけ縮める
+        const width = measure(token.text, font);
+        local = scaling(Math.min(1, (fontSize * 0.95) / Math.max(width, 1)), 1);
+        break;
+      }
+      case 'sideways':
+        // 欧文は時計回りに 90° 寝かせ、文字列の幅ぶん進める
+        advance = measure(token.text, font);
+        local = rotation(Math.PI / 2);
+        break;
+    }
+
+    if (token.kind !== 'space') {
+      placed.push({ text: token.text, offset: length + advance / 2, advance, local });
+    }
+    length += advance + spacing;
+  });
+
+  return { placed, length };
+}
+
+// ---- 共通 ----
+
+// ルビは親文字の半分の大きさ
+const RUBY_SCALE = 0.5;
+
+// ctx.font に渡す文字列（太さ・イタリックも含める）
+export const fontString = (size: number, style: Pick<TextStyle, 'fontFamily' | 'fontWeight' | 'fontStyle'>) =>
+  `${style.fontStyle === 'italic' ? 'italic ' : ''}${style.fontWeight} ${size}px ${style.fontFamily}`;
+
+// 行の文字サイズ（一番大きい run に合わせる。空行はレイヤーの文字サイズ）
+const lineFontSize = (runs: TextRun[], fontSize: number) =>
+  runs.length === 0 ? fontSize : Math.max(...runs.map(run => fontSize * run.size));
+
+// 揃え位置：空き（ブロックの長さ - 行の長さ）のうち行の前に置く割合
+const ALIGN_RATIO = { start: 0, center: 0.5, end: 1 } as const;
+
+// 一番外側まで届く縁取りの幅（ぼかしを含む）
+export function maxStrokeExtent(strokes: StrokeEntry[]) {
+  return strokes.reduce((max, stroke) => Math.max(max, stroke.width + stroke.blur), 0);
+}
+
+// 行ごとの配置を計算する（canvas / SVG の描画と当たり判定で共通）
+// まず変形なしで並べ、最後に文字ごとの変形と全体の変形を掛ける
+export function layoutText(measure: TextMeasurer, spec: TextSpec, options: RenderOptions): TextLayout {
+  const layout = transformLayout(measure, fitLayout(measure, spec, options), spec.style.transform);
+  return spec.reveal === undefined ? layout : revealLayout(measure, layout, spec.reveal);
+}
+
+// 先頭から count 文字分の描画単位だけを残す（タイプライター表示）
+// 行の箱・外接矩形は全文のままにして、文字が増えても位置やグラデーションが動かないようにする
+function revealLayout(measure: TextMeasurer, layout: TextLayout, count: number): TextLayout {
+  let remaining = Math.max(0, Math.floor(count));
+  return {
+    ...layout,
+    lines: layout.lines.map(line => ({
+      ...line,
+      segments: charSegments(measure, layout, line).filter((segment) => {
+        if (remaining <= 0) return false;
+        remaining -= [...segment.text].length;
+        return true;
+      }),
+    })),
+  };
+}
+
+// 自動フィット：縁取りを含めて指定の幅・高さに収まるよう縮める（拡大はしない）
+// lines は行（縦書きでは列）ごとにその長さを、block はブロック全体を縮める
+function fitLayout(measure: TextMeasurer, spec: TextSpec, options: RenderOptions): FlatLayout {
+  const flat = layoutFlat(measure, spec, options);
+  const { autoFit, strokes } = spec.style;
+  if (autoFit.mode === 'off') return flat;
+
+  const scale = options.scale ?? 1;
+  const pad = maxStrokeExtent(strokes) * 2 * scale;
+  const maxWidth = Math.max(1, autoFit.maxWidth * scale - pad);
+  const maxHeight = Math.max(1, autoFit.maxHeight * scale - pad);
+
+  const factors = autoFit.mode === 'block'
+    ? flat.lines.map(() => Math.min(1, maxWidth / flat.block.width, maxHeight / flat.block.height))
+    : flat.lines.map(line => Math.min(1, flat.vertical ? maxHeight / line.box.height : maxWidth / line.box.width));
+  if (factors.every(factor => factor === 1)) return flat;
+  return layoutFlat(measure, spec, options, factors);
+}
+
+// fitFactors は自動フィットで行ごとに掛ける倍率
+function layoutFlat(measure: TextMeasurer, spec: TextSpec, options: RenderOptions, fitFactors: number[] = []): FlatLayout {
+  const { style } = spec;
+  const scale = options.scale ?? 1;
+
+  const fontSize = style.fontSize * scale;
+  const font = fontString(fontSize, style);
+  const parsed = parseMarkup(spec.text);
+  const texts = parsed.map(runs => runs.map(run => run.text).join(''));
+  // 行ごとの倍率（手動の指定 × 自動フィット）を掛けた基準の文字サイズ
+  const lineSizes = parsed.map((_, index) => fontSize * (style.lineScales[index] ?? 1) * (fitFactors[index] ?? 1));
+  // 行送りは行ごとに、その行の一番大きい文字に合わせる
+  const advances = parsed.map((runs, index) => lineFontSize(runs, lineSizes[index]) * style.lineHeight);
+  const total = advances.reduce((sum, advance) => sum + advance, 0);
+  const alignRatio = ALIGN_RATIO[style.textAlign];
+
+  // 中央からのズレとして使用
+  const centerX = options.width / 2 + spec.offsetX * scale;
+  const centerY = options.height / 2 + spec.offsetY * scale;
+
+  // 字間は各 run の文字サイズに対する割合（負の値で詰める）
+  const runFont = (run: TextRun, base: number, ratio = 1) => {
+    const size = base * run.size * ratio;
+    return { size, font: fontString(size, style), spacing: style.letterSpacing * size };
+  };
+
+  if (style.writingMode === 'vertical') {
+    // run ごとに上から並べ、ルビは親文字の範囲の中央に右側へ添える
+    const columns = parsed.map((runs, index) => {
+      const glyphs: (PlacedGlyph & { size: number; font: string; color?: string; dx: number })[] = [];
+      let length = 0;
+      let trailing = 0;
+      runs.forEach(run => {
+        const { size, font: runFontString, spacing } = runFont(run, lineSizes[index]);
+        const column = layoutColumn(measure, run.text, runFontString, size, spacing);
+        column.placed.forEach(glyph => glyphs.push({
+          ...glyph, offset: length + glyph.offset, size, font: runFontString, color: run.color, dx: 0,
+        }));
+        if (run.ruby) {
+          const ruby = runFont(run, lineSizes[index], RUBY_SCALE);
+          const rubyColumn = layoutColumn(measure, run.ruby, ruby.font, ruby.size);
+          const start = length + (column.length - spacing - rubyColumn.length) / 2;
+          rubyColumn.placed.forEach(glyph => glyphs.push({
+            ...glyph, offset: start + glyph.offset, size: ruby.size, font: ruby.font, color: run.color,
+            dx: size / 2 + ruby.size / 2,
+          }));
+        }
+        length += column.length;
+        trailing = spacing;
+      });
+      // 最後の文字の後ろの字間は長さに含めない
+      return { glyphs, length: Math.max(0, length - trailing) };
+    });
+    const maxLength = Math.max(0, ...columns.map(column => column.length));
+    const blockTop = centerY - maxLength / 2;
+
+    // 列は右から左へ。ブロックの右端から列の幅ずつ進める
+    let right = centerX + total / 2;
+    const lines = columns.map((column, index): FlatLayout['lines'][number] => {
+      const x = right - advances[index] / 2;
+      right -= advances[index];
+      const top = blockTop + (maxLength - column.length) * alignRatio;
+      return {
+        text: texts[index],
+        box: { cx: x, cy: top + column.length / 2, width: lineFontSize(parsed[index], lineSizes[index]), height: column.length },
+        segments: column.glyphs.map(glyph => ({
+          text: glyph.text,
+          matrix: compose(translation(x + glyph.dx, top + glyph.offset), glyph.local),
+          box: { cx: x + glyph.dx, cy: top + glyph.offset, width: glyph.size, height: glyph.advance },
+          font: glyph.font,
+          fontSize: glyph.size,
+          color: glyph.color,
+        })),
+      };
+    });
+
+    return {
+      font, fontSize, vertical: true, lines,
+      block: { x: centerX - total / 2, y: blockTop, width: total, height: maxLength },
+    };
+  }
+
+  // 横書き：先に全行の幅を測り、一番長い行の幅の中で揃える
+  // 字間を空けるときは 1 文字ずつ置く
+  const measuredLines = parsed.map((runs, index) => {
+    const measured = runs.map(run => {
+      const item = runFont(run, lineSizes[index]);
+      const chars = item.spacing === 0
+        ? [{ text: run.text, width: measure(run.text, item.font) }]
+        : Array.from(run.text).map(ch => ({ text: ch, width: measure(ch, item.font) + item.spacing }));
+      return { ...item, run, chars, width: chars.reduce((sum, ch) => sum + ch.width, 0) };
+    });
+    const trailing = measured.length > 0 ? measured[measured.length - 1].spacing : 0;
+    const width = Math.max(0, measured.reduce((sum, item) => sum + item.width, 0) - trailing);
+    return { runs, measured, width };
+  });
+  const maxWidth = Math.max(0, ...measuredLines.map(line => line.width));
+  const blockLeft = centerX - maxWidth / 2;
+
+  let y = centerY - total / 2;
+  const lines = measuredLines.map(({ runs, measured, width }, index): FlatLayout['lines'][number] => {
+    const cy = y + advances[index] / 2;
+    y += advances[index];
+    const lineLeft = blockLeft + (maxWidth - width) * alignRatio;
+    let left = lineLeft;
+
+    const segments = measured.flatMap(({ run, size, font: runFontString, spacing, chars, width: runWidth }): FlatSegment[] => {
+      const runLeft = left;
+      left += runWidth;
+      let cursor = runLeft;
+      const base: FlatSegment[] = chars.map(ch => {
+        // 字間は文字の後ろに付くので、文字の中心は字間を除いた幅の中央
+        const inkWidth = ch.width - spacing;
+        const cx = cursor + inkWidth / 2;
+        cursor += ch.width;
+        return {
+          text: ch.text, matrix: translation(cx, cy), box: { cx, cy, width: inkWidth, height: size },
+          font: runFontString, fontSize: size, color: run.color,
+        };
+      });
+      if (!run.ruby) return base;
+
+      // ルビは親文字の上端に接するよう中央揃えで置く
+      const ruby = runFont(run, lineSizes[index], RUBY_SCALE);
+      const cx = runLeft + (runWidth - spacing) / 2;
+      const rubyY = cy - size / 2 - ruby.size / 2;
+      return [...base, {
+        text: run.ruby, matrix: translation(cx, rubyY),
+        box: { cx, cy: rubyY, width: measure(run.ruby, ruby.font), height: ruby.size },
+        font: ruby.font, fontSize: ruby.size, color: run.color,
+      }];
+    });
+
+    return {
+      text: texts[index],
+      box: { cx: lineLeft + width / 2, cy, width, height: lineFontSize(runs, lineSizes[index]) },
+      segments,
+    };
+  });
+
+  return {
+    font, fontSize, vertical: false, lines,
+    block: { x: blockLeft, y: centerY - total / 2, width: maxWidth, height: total },
+  };
+}
+
+// 横書きの描画単位を 1 文字ずつに分ける（サロゲートペアも 1 文字として扱う）
+// 分けた文字は元の単位のローカル座標で横にずらすので、変形もそのまま引き継ぐ
+function splitSegment(measure: TextMeasurer, segment: Segment): Segment[] {
+  const chars = Array.from(segment.text);
+  if (chars.length <= 1) return [segment];
+
+  const { box } = segment;
+  let prefix = '';
+  return chars.map(ch => {
+    const start = measure(prefix, segment.font);
+    const width = measure(ch, segment.font);
+    prefix += ch;
+    const dx = start + width / 2 - box.width / 2;
+    return {
+      ...segment,
+      text: ch,
+      matrix: multiply(segment.matrix, translation(dx, 0)),
+      flatMatrix: multiply(segment.flatMatrix, translation(dx, 0)),
+      box: { cx: box.cx + dx, cy: box.cy, width, height: box.height },
+    };
+  });
+}
+
+function boundingRect(points: { x: number; y: number }[]): Rect {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// 文字ごとの変形 → ブロック全体の変形 の順に掛け、変形後の外接矩形を求める
+function transformLayout(measure: TextMeasurer, layout: FlatLayout, transform: TextTransform): TextLayout {
+  const warped = hasGlyphWarp(transform);
+  const whole = blockTransform(transform, layout.block);
+
+  const lines = layout.lines.map((line): LineLayout => {
+    let segments = line.segments.map((segment): Segment => ({ ...segment, flatMatrix: segment.matrix }));
+    if (warped && !layout.vertical) segments = segments.flatMap(segment => splitSegment(measure, segment));
+    return {
+      ...line,
+      segments: segments.map(segment => ({
+        ...segment,
+        matrix: compose(
+          whole,
+          warped ? glyphWarp(transform, segment.box.cx, segment.box.cy, layout) : IDENTITY,
+          segment.flatMatrix,
+        ),
+      })),
+    };
+  });
+
+  // 各単位の箱の四隅を変形後の座標へ移して囲む
+  const points = lines.flatMap(line => line.segments.flatMap(segment => {
+    const { cx, cy, width, height } = segment.box;
+    const toFinal = multiply(segment.matrix, invert(segment.flatMatrix));
+    return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) =>
+      applyToPoint(toFinal, cx + (sx * width) / 2, cy + (sy * height) / 2));
+  }));
+  const bounds = points.length === 0 ? layout.block : boundingRect(points);
+
+  return { ...layout, lines, bounds };
+}
+
+// 1 文字ずつの描画単位
+// 縦書きはもともと 1 文字（縦中横はひとまとまり）ずつなのでそのまま返す
+export function charSegments(measure: TextMeasurer, layout: TextLayout, line: LineLayout): Segment[] {
+  if (layout.vertical) return line.segments;
+  return line.segments.flatMap(segment => splitSegment(measure, segment));
+}
+
+// グラデーションの範囲に応じた箱（pad は縁取りの太さ分だけ広げる）
+export function gradientBoxFor(
+  scope: 'line' | 'char' | 'block',
+  layout: TextLayout,
+  line: LineLayout,
+  segment: Segment,
+  pad: number,
+): CenterBox {
+  const base = scope === 'char'
+    ? segment.box
+    : scope === 'block'
+      ? {
+        cx: layout.block.x + layout.block.width / 2,
+        cy: layout.block.y + layout.block.height / 2,
+        width: layout.block.width,
+        height: layout.block.height,
+      }
+      : line.box;
+  return { ...base, width: base.width + pad, height: base.height + pad };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkup } from './markup';
+
+describe('parseMarkup', () => {
+  it('{color=…|…} の色を run に付ける', () => {
+    expect(parseMarkup('辛さ{color=#ff0|激辛}')).toEqual([[
+      { size: 1, text: '辛さ' },
+      { size: 1, color: '#ff0', text: '激辛' },
+    ]]);
+  });
+
+  it('#RGB / #RRGGBB 以外の色は記法として読まず、そのまま文字にする', () => {
+    ['xyz', 'red', '#12', '#ff00ff00', 'red"/><script>'].forEach(color => {
+      const source = `{color=${color}|A}`;
+      expect(parseMarkup(source)).toEqual([[{ size: 1, text: source }]]);
+    });
+  });
+});
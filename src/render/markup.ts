@@ -0,0 +1,126 @@
+import { isHexColor } from './gradient';
+
+// テキスト入力のインライン記法
+//   {color=#ff0|激辛}       … 色を変える（塗りの色だけ。縁取り・影は共通）
+//   {size=1.5|!!}           … 文字サイズを倍率で変える
+//   {color=#f00,size=2|…}   … 属性はカンマか空白で区切って並べられる（入れ子も可）
+//   ｜漢字《かんじ》          … ルビ（｜を省略すると直前の漢字の並びが親文字になる）
+//   \{ \} \｜ \《           … 記号そのものを書くときはバックスラッシュを前に付ける
+
+export type RunStyle = {
+  color?: string;               // 省略時はレイヤーの塗り
+  size: number;                 // レイヤーの文字サイズに対する倍率
+};
+
+export type TextRun = RunStyle & {
+  text: string;
+  ruby?: string;                // 親文字の上（縦書きでは右）に小さく添える読み
+};
+
+const BASE_STYLE: RunStyle = { size: 1 };
+
+// ルビの親文字として自動で拾う文字（漢字と々〆ヶ）
+const KANJI_TAIL = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF々〆ヶ]+$/;
+const ATTRIBUTE = /^\s*([a-z]+)\s*=\s*([^,\s]+)\s*$/i;
+
+// {…| の … 部分を属性として読む。属性として読めなければ null（ただの { として扱う）
+function parseAttributes(header: string, base: RunStyle): RunStyle | null {
+  const parts = header.split(/[,\s]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const style = { ...base };
+  for (const part of parts) {
+    const match = ATTRIBUTE.exec(part);
+    if (!match) return null;
+    const [, key, value] = match;
+    if (key === 'color') {
+      // 描画先によって不正な色の扱いが違う（canvas は直前の色のまま、SVG は黒）ので、ここで弾く
+      if (!isHexColor(value)) return null;
+      style.color = value;
+    } else if (key === 'size') {
+      const size = parseFloat(value);
+      if (!(size > 0)) return null;
+      style.size = base.size * size;
+    }
+    // 知らない属性は無視する（後から増やしても古い版で壊れないように）
+  }
+  return style;
+}
+
+// 記法を行ごとの run の並びに分解する
+export function parseMarkup(source: string): TextRun[][] {
+  const lines: TextRun[][] = [[]];
+  const stack: RunStyle[] = [BASE_STYLE];
+  let buffer = '';
+  let rubyBase = false;           // ｜の直後から buffer を親文字として貯めている
+
+  const style = () => stack[stack.length - 1];
+  const flush = (ruby?: string) => {
+    if (buffer) lines[lines.length - 1].push({ ...style(), text: buffer, ...(ruby ? { ruby } : {}) });
+    buffer = '';
+    rubyBase = false;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === '\\' && i + 1 < source.length && '{}｜《》\\'.includes(source[i + 1])) {
+      buffer += source[++i];
+      continue;
+    }
+    if (ch === '\n') {
+      flush();
+      lines.push([]);
+      continue;
+    }
+    if (ch === '{') {
+      const bar = source.indexOf('|', i);
+      const close = source.indexOf('}', i);
+      const next = bar > i && (close < 0 || bar < close) ? parseAttributes(source.slice(i + 1, bar), style()) : null;
+      if (next) {
+        flush();
+        stack.push(next);
+        i = bar;
+        continue;
+      }
+    }
+    if (ch === '}' && stack.length > 1) {
+      flush();
+      stack.pop();
+      continue;
+    }
+    if (ch === '｜') {
+      flush();
+      rubyBase = true;
+      continue;
+    }
+    if (ch === '《') {
+      const close = source.indexOf('》', i);
+      const ruby = close > i ? source.slice(i + 1, close) : '';
+      if (ruby && !ruby.includes('\n')) {
+        if (rubyBase && buffer) {
+          flush(ruby);
+          i = close;
+          continue;
+        }
+        const base = KANJI_TAIL.exec(buffer)?.[0];
+        if (base) {
+          buffer = buffer.slice(0, -base.length);
+          flush();
+          buffer = base;
+          flush(ruby);
+          i = close;
+          continue;
+        }
+      }
+    }
+    buffer += ch;
+  }
+  flush();
+  return lines;
+}
+
+// 記法を取り除いた表示用の文字列（レイヤー名など）
+export function plainText(source: string) {
+  return parseMarkup(source).map(line => line.map(run => run.text).join('')).join('\n');
+}
@@ -0,0 +1,70 @@
+// 2D アフィン変換 [a, b, c, d, e, f]（ctx.transform / SVG の matrix() と同じ並び）
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// m1 · m2（m2 を先に適用する）
+export function multiply(m1: Matrix, m2: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = m1;
+  const [a2, b2, c2, d2, e2, f2] = m2;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+}
+
+// 左から順に掛ける：compose(A, B, C) = A · B · C
+export function compose(...matrices: Matrix[]): Matrix {
+  return matrices.reduce(multiply, IDENTITY);
+}
+
+export function translation(x: number, y: number): Matrix {
+  return [1, 0, 0, 1, x, y];
+}
+
+export function rotation(rad: number): Matrix {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [cos, sin, -sin, cos, 0, 0];
+}
+
+export function scaling(sx: number, sy = sx): Matrix {
+  return [sx, 0, 0, sy, 0, 0];
+}
+
+// x 方向の傾き（ax）と y 方向の傾き（ay）、ラジアン
+export function skewing(ax: number, ay = 0): Matrix {
+  return [1, Math.tan(ay), Math.tan(ax), 1, 0, 0];
+}
+
+export function invert(m: Matrix): Matrix {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (det === 0) return IDENTITY;
+  return [
+    d / det,
+    -b / det,
+    -c / det,
+    a / det,
+    (c * f - d * e) / det,
+    (b * e - a * f) / det,
+  ];
+}
+
+export function applyToPoint(m: Matrix, x: number, y: number) {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+// 平行移動だけの変換か（SVG では transform を付けずに x / y で書ける）
+export function isTranslation(m: Matrix) {
+  return m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1;
+}
+
+// 変換による長さの拡大率（面積比の平方根）
+export function scaleFactor(m: Matrix) {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
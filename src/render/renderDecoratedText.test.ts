@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TEXT_STYLE } from '../model/layers';
+import { createShadow } from '../model/shadows';
+import { createStroke } from '../model/strokes';
+import { multiply, type Matrix } from './matrix';
+import { renderDecoratedText } from './renderDecoratedText';
+import type { DrawingContext, RenderOptions, TextSpec } from './types';
+
+// 描いた 1 回分（そのときの状態ごと記録する）
+type DrawCall = {
+  op: 'fill' | 'stroke';
+  text: string;
+  style: unknown;
+  font: string;
+  lineWidth: number;
+  filter: string;
+  globalAlpha: number;
+  composite: GlobalCompositeOperation;
+  matrix: Matrix;
+};
+
+const fontPx = (font: string) => Number(/([\d.]+)px/.exec(font)?.[1] ?? 0);
+
+// 記録用の 2D コンテキスト。文字幅は文字サイズ × 0.6 で測る
+function recordingContext() {
+  const calls: DrawCall[] = [];
+  let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+  const stack: { matrix: Matrix; state: Record<string, unknown> }[] = [];
+  const state = {
+    font: '10px sans-serif',
+    textAlign: 'start' as CanvasTextAlign,
+    textBaseline: 'alphabetic' as CanvasTextBaseline,
+    lineJoin: 'miter' as CanvasLineJoin,
+    miterLimit: 10,
+    fillStyle: '#000000' as string | CanvasGradient | CanvasPattern,
+    strokeStyle: '#000000' as string | CanvasGradient | CanvasPattern,
+    lineWidth: 1,
+    globalAlpha: 1,
+    filter: 'none',
+    globalCompositeOperation: 'source-over' as GlobalCompositeOperation,
+  };
+  const record = (op: DrawCall['op'], text: string) => calls.push({
+    op,
+    text,
+    style: op === 'fill' ? state.fillStyle : state.strokeStyle,
+    font: state.font,
+    lineWidth: state.lineWidth,
+    filter: state.filter,
+    globalAlpha: state.globalAlpha,
+    composite: state.globalCompositeOperation,
+    matrix,
+  });
+  const gradient = () => ({ addColorStop: () => {} }) as unknown as CanvasGradient;
+
+  const ctx: DrawingContext = Object.assign(state, {
+    save: () => stack.push({ matrix, state: { ...state } }),
+    restore: () => {
+      const saved = stack.pop();
+      if (!saved) return;
+      matrix = saved.matrix;
+      Object.assign(state, saved.state);
+    },
+    transform: (a: number, b: number, c: number, d: number, e: number, f: number) => {
+      matrix = multiply(matrix, [a, b, c, d, e, f]);
+    },
+    fillText: (text: string) => record('fill', text),
+    strokeText: (text: string) => record('stroke', text),
+    measureText: (text: string) => ({ width: [...text].length * fontPx(state.font) * 0.6 }) as TextMetrics,
+    createLinearGradient: gradient,
+    createRadialGradient: gradient,
+  });
+  return { ctx, calls };
+}
+
+const spec: TextSpec = {
+  text: 'AB',
+  offsetX: 40,
+  offsetY: -20,
+  style: {
+    ...DEFAULT_TEXT_STYLE,
+    textColor: '#555555',
+    // 先頭が内側
+    strokes: [
+      createStroke({ color: '#111111', width: 8 }),
+      createStroke({ color: '#222222', width: 18, blur: 2 }),
+    ],
+    shadows: [
+      createShadow({ color: '#444444', placement: 'behindFill', offsetX: 6, offsetY: 4, blur: 12, spread: 0 }),
+      createShadow({ color: '#333333', placement: 'behindStrokes', offsetX: 10, offsetY: 10, blur: 20, spread: 0 }),
+    ],
+  },
+};
+
+const EXPORT_OPTIONS: RenderOptions = { width: 1920, height: 1080, scale: 1 };
+const PREVIEW_OPTIONS: RenderOptions = { width: 960, height: 540, scale: 0.5 };
+
+function render(options: RenderOptions, target: TextSpec = spec) {
+  const { ctx, calls } = recordingContext();
+  renderDecoratedText(ctx, target, options);
+  return calls;
+}
+
+const blurPx = (filter: string) => Number(/blur\(([\d.]+)px\)/.exec(filter)?.[1] ?? 0);
+
+describe('renderDecoratedText', () => {
+  it('描く順番は 縁取りの後ろの影 → 縁取り（外側から） → 本体の後ろの影 → 本体', () => {
+    const calls = render(EXPORT_OPTIONS);
+    expect(calls.map(call => `${call.op}:${call.style}`)).toEqual([
+      'fill:#333333',
+      'stroke:#222222',
+      'stroke:#111111',
+      'fill:#444444',
+      'fill:#555555',
+    ]);
+    expect(calls.every(call => call.text === 'AB')).toBe(true);
+  });
+
+  it('行ごとに 影 → 縁取り → 影 → 本体 をくり返す', () => {
+    const calls = render(EXPORT_OPTIONS, { ...spec, text: 'A\nB' });
+    expect(calls.map(call => `${call.text}:${call.style}`)).toEqual([
+      'A:#333333', 'A:#222222', 'A:#111111', 'A:#444444', 'A:#555555',
+      'B:#333333', 'B:#222222', 'B:#111111', 'B:#444444', 'B:#555555',
+    ]);
+  });
+
+  it('options.scale を縁取りの太さ・ぼかし・影のずれに掛ける', () => {
+    const calls = render({ width: 3840, height: 2160, scale: 2 });
+    const [behindStrokes, outer, inner, behindFill, fill] = calls;
+
+    // 縁取りの太さは片側の幅なので、lineWidth はその 2 倍
+    expect(outer.lineWidth).toBe(18 * 2 * 2);
+    expect(inner.lineWidth).toBe(8 * 2 * 2);
+    expect(blurPx(outer.filter)).toBe(2 * 2);
+    expect(inner.filter).toBe('none');
+
+    // 影の blur は標準偏差の 2 倍なので、filter の blur() はその半分
+    expect(blurPx(behindStrokes.filter)).toBe((20 * 2) / 2);
+    expect(blurPx(behindFill.filter)).toBe((12 * 2) / 2);
+
+    // 影は本体と同じ位置から offset × scale だけずれる
+    expect(behindStrokes.matrix[4] - fill.matrix[4]).toBeCloseTo(10 * 2);
+    expect(behindStrokes.matrix[5] - fill.matrix[5]).toBeCloseTo(10 * 2);
+    expect(behindFill.matrix[4] - fill.matrix[4]).toBeCloseTo(6 * 2);
+    expect(behindFill.matrix[5] - fill.matrix[5]).toBeCloseTo(4 * 2);
+    expect(fill.filter).toBe('none');
+  });
+
+  it('プレビューと書き出しは倍率の違いを除いて同じ呼び出しになる', () => {
+    const exported = render(EXPORT_OPTIONS);
+    const preview = render(PREVIEW_OPTIONS);
+    const ratio = PREVIEW_OPTIONS.scale! / EXPORT_OPTIONS.scale!;
+
+    expect(preview).toHaveLength(exported.length);
+    preview.forEach((call, i) => {
+      const base = exported[i];
+      expect([call.op, call.text, call.style, call.globalAlpha, call.composite])
+        .toEqual([base.op, base.text, base.style, base.globalAlpha, base.composite]);
+      expect(fontPx(call.font)).toBeCloseTo(fontPx(base.font) * ratio);
+      if (call.op === 'stroke') expect(call.lineWidth).toBeCloseTo(base.lineWidth * ratio);
+      expect(blurPx(call.filter)).toBeCloseTo(blurPx(base.filter) * ratio);
+      // 回転・拡大の成分は同じで、位置だけが倍率どおりに縮む
+      call.matrix.slice(0, 4).forEach((value, k) => expect(value).toBeCloseTo(base.matrix[k]));
+      expect(call.matrix[4]).toBeCloseTo(base.matrix[4] * ratio);
+      expect(call.matrix[5]).toBeCloseTo(base.matrix[5] * ratio);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { colorWithAlpha, gradientGeometry, sortedStops } from './gradient';
+import { canvasMeasurer, charSegments, gradientBoxFor, layoutText, maxStrokeExtent, type LineLayout, type TextLayout } from './layout';
+import { IDENTITY, invert, multiply, translation, type Matrix } from './matrix';
+import type { CenterBox, DrawingContext, Gradient, Rect, RenderableLayer, RenderOptions, ShadowEntry, TextSpec } from './types';
+
+export function createCanvasGradient(
+  ctx: Pick<DrawingContext, 'createLinearGradient' | 'createRadialGradient'>,
+  gradient: Gradient,
+  box: CenterBox,
+  toLocal?: Matrix,
+) {
+  const geometry = gradientGeometry(gradient, box, toLocal);
+  const result = geometry.type === 'radial'
+    ? ctx.createRadialGradient(geometry.cx, geometry.cy, 0, geometry.cx, geometry.cy, geometry.r)
+    : ctx.createLinearGradient(geometry.x1, geometry.y1, geometry.x2, geometry.y2);
+  sortedStops(gradient.stops).forEach(stop => {
+    result.addColorStop(Math.min(1, Math.max(0, stop.offset)), colorWithAlpha(stop.color, stop.alpha));
+  });
+  return result;
+}
+
+type Paint = {
+  color: string;
+  gradient: Gradient | null;
+  pad: number;                  // グラデーションの箱を縁取りの太さ分広げる
+  inlineColor?: boolean;        // インライン記法で色を指定した部分はその色で塗る（本体の塗りだけ）
+};
+
+// 行の描画単位を 1 つずつ座標変換して塗る／縁取る
+// グラデーションは範囲（行・文字・全体）の箱に合わせ、各単位のローカル座標に直して作る
+function paintLine(
+  ctx: DrawingContext,
+  layout: TextLayout,
+  line: LineLayout,
+  mode: 'fill' | 'stroke',
+  paint: Paint,
+  shift: Matrix = IDENTITY,
+) {
+  const { gradient } = paint;
+  const segments = gradient?.scope === 'char' ? charSegments(canvasMeasurer(ctx), layout, line) : line.segments;
+
+  segments.forEach(segment => {
+    const matrix = multiply(shift, segment.matrix);
+    ctx.save();
+    ctx.font = segment.font;
+    ctx.transform(...matrix);
+
+    const inline = paint.inlineColor ? segment.color : undefined;
+    const style = inline ?? (gradient
+      ? createCanvasGradient(ctx, gradient, gradientBoxFor(gradient.scope, layout, line, segment, paint.pad), invert(segment.flatMatrix))
+      : paint.color);
+    if (mode === 'fill') {
+      ctx.fillStyle = style;
+      ctx.fillText(segment.text, 0, 0);
+    } else {
+      ctx.strokeStyle = style;
+      ctx.strokeText(segment.text, 0, 0);
+    }
+    ctx.restore();
+  });
+}
+
+// 影・光彩を 1 つ描く
+// 元の形は描かず、ぼかした色付きの複製だけを置くので、縁取りと本体の間にも挟める
+function paintShadow(ctx: DrawingContext, shadow: ShadowEntry, layout: TextLayout, line: LineLayout, scale: number) {
+  if (!shadow.enabled || shadow.opacity <= 0) return;
+  const isGlow = shadow.mode === 'glow';
+  const shift = isGlow ? IDENTITY : translation(shadow.offsetX * scale, shadow.offsetY * scale);
+  const paint = { color: shadow.color, gradient: null, pad: 0 };
+
+  ctx.save();
+  ctx.globalAlpha = shadow.opacity;
+  if (isGlow) ctx.globalCompositeOperation = 'lighter';
+  // shadowBlur は標準偏差の 2 倍、filter の blur() は標準偏差そのもの
+  if (shadow.blur > 0) ctx.filter = `blur(${(shadow.blur * scale) / 2}px)`;
+  paintLine(ctx, layout, line, 'fill', paint, shift);
+  if (shadow.spread > 0) {
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = shadow.spread * 2 * scale;
+    paintLine(ctx, layout, line, 'stroke', paint, shift);
+  }
+  ctx.restore();
+}
+
+// 影（縁取りの後ろ）→ 縁取り（外側から順に）→ 影（本体の後ろ）→ 本体 の順で描画する
+// プレビューと書き出しの両方がこの関数を通るので、見た目がずれることはない
+export function renderDecoratedText(ctx: DrawingContext, spec: TextSpec, options: RenderOptions) {
+  const { style } = spec;
+  const scale = options.scale ?? 1;
+
+  ctx.save();
+  const layout = layoutText(canvasMeasurer(ctx), spec, options);
+  ctx.font = layout.font;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.miterLimit = 2;
+
+  layout.lines.forEach((line) => {
+    // 1. 影（縁取りの後ろ）
+    style.shadows
+      .filter(shadow => shadow.placement === 'behindStrokes')
+      .forEach(shadow => paintShadow(ctx, shadow, layout, line, scale));
+
+    // 2. 縁取り（リストの末尾 = 一番外側から描く）
+    for (let i = style.strokes.length - 1; i >= 0; i--) {
+      const stroke = style.strokes[i];
+      if (stroke.width <= 0 || stroke.opacity <= 0) continue;
+
+      ctx.save();
+      ctx.globalAlpha = stroke.opacity;
+      if (stroke.blur > 0) ctx.filter = `blur(${stroke.blur * scale}px)`;
+      ctx.lineJoin = stroke.join;
+      ctx.lineWidth = stroke.width * 2 * scale;
+      paintLine(ctx, layout, line, 'stroke', {
+        color: stroke.color,
+        gradient: stroke.colorType === 'gradient' ? stroke.gradient : null,
+        pad: ctx.lineWidth,
+      });
+      ctx.restore();
+    }
+
+    // 3. 影（縁取りと本体の間）
+    style.shadows
+      .filter(shadow => shadow.placement === 'behindFill')
+      .forEach(shadow => paintShadow(ctx, shadow, layout, line, scale));
+
+    // 4. テキスト本体
+    paintLine(ctx, layout, line, 'fill', {
+      color: style.textColor,
+      gradient: style.textColorType === 'gradient' ? style.textGradient : null,
+      pad: 0,
+      inlineColor: true,
+    });
+  });
+
+  ctx.restore();
+}
+
+// 縁取りを含めたテキストブロックの外接矩形（影は含めない）
+export function measureTextBounds(ctx: DrawingContext, spec: TextSpec, options: RenderOptions): Rect {
+  const scale = options.scale ?? 1;
+
+  ctx.save();
+  const { bounds } = layoutText(canvasMeasurer(ctx), spec, options);
+  ctx.restore();
+
+  const stroke = maxStrokeExtent(spec.style.strokes) * scale;
+  return {
+    x: bounds.x - stroke,
+    y: bounds.y - stroke,
+    width: bounds.width + stroke * 2,
+    height: bounds.height + stroke * 2,
+  };
+}
+
+const expandRect = (rect: Rect, by: number, dx = 0, dy = 0): Rect => ({
+  x: rect.x - by + dx,
+  y: rect.y - by + dy,
+  width: rect.width + by * 2,
+  height: rect.height + by * 2,
+});
+
+// 縁取り・影・光彩まで含めて実際に色が付く範囲（切り出し用）
+// ぼかしは標準偏差の 3 倍までを範囲に入れる（縁取りの blur は標準偏差、影の blur はその 2 倍）
+export function measureDrawnBounds(ctx: DrawingContext, spec: TextSpec, options: RenderOptions): Rect {
+  const scale = options.scale ?? 1;
+
+  ctx.save();
+  const { bounds } = layoutText(canvasMeasurer(ctx), spec, options);
+  ctx.restore();
+
+  const stroke = spec.style.strokes
+    .filter(entry => entry.width > 0 && entry.opacity > 0)
+    .reduce((max, entry) => Math.max(max, entry.width + entry.blur * 3), 0);
+  const rects = [expandRect(bounds, stroke * scale)];
+  spec.style.shadows.forEach((shadow) => {
+    if (!shadow.enabled || shadow.opacity <= 0) return;
+    const isGlow = shadow.mode === 'glow';
+    rects.push(expandRect(bounds, (shadow.spread + shadow.blur * 1.5) * scale,
+      isGlow ? 0 : shadow.offsetX * scale, isGlow ? 0 : shadow.offsetY * scale));
+  });
+
+  const left = Math.min(...rects.map(rect => rect.x));
+  const top = Math.min(...rects.map(rect => rect.y));
+  const right = Math.max(...rects.map(rect => rect.x + rect.width));
+  const bottom = Math.max(...rects.map(rect => rect.y + rect.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// 表示中のレイヤーを下から順に重ねて描画する
+export function renderLayers(ctx: DrawingContext, layers: RenderableLayer[], options: RenderOptions) {
+  layers.forEach(layer => {
+    if (layer.visible) renderDecoratedText(ctx, layer, options);
+  });
+}
@@ -0,0 +1,248 @@
+import { backgroundImageRect } from './background';
+import { gradientGeometry, sortedStops } from './gradient';
+import { approximateMeasurer, charSegments, gradientBoxFor, layoutText, type LineLayout, type TextMeasurer } from './layout';
+import { IDENTITY, invert, isTranslation, multiply, translation, type Matrix } from './matrix';
+import type { Background, CenterBox, Gradient, RenderableLayer, RenderOptions, ShadowEntry, TextSpec } from './types';
+
+// SVG に書き込む @font-face（src は URL でも data URI でもよい）
+export type SvgFontFace = {
+  family: string;
+  src: string;
+  format: string;
+};
+
+export type SvgRenderOptions = RenderOptions & {
+  fontFaces?: SvgFontFace[];
+  measureText?: TextMeasurer;   // 省略時は近似値で配置する
+  background?: Background;      // 書き出しに含める背景（省略時は透過）
+};
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// CSS の文字列（'…'）の中身にする。\ と ' を逃がし、改行は \a などの 16 進表記にする
+const cssString = (value: string) =>
+  value.replace(/[\\']/g, '\\$&').replace(/[\n\r\f]/g, ch => `\\${ch.charCodeAt(0).toString(16)} `);
+
+// 数値を短く出力する（小数第 3 位まで）
+const n = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// canvas 側と同じ座標のグラデーションを userSpaceOnUse で書き出す
+// toLocal を渡すと、transform 付きの <text> のローカル座標に直して書き出す
+function gradientDef(id: string, gradient: Gradient, box: CenterBox, toLocal?: Matrix) {
+  const stops = sortedStops(gradient.stops).map(stop =>
+    `<stop offset="${n(Math.min(1, Math.max(0, stop.offset)))}" stop-color="${escapeXml(stop.color)}" stop-opacity="${n(stop.alpha)}"/>`
+  ).join('');
+  const geometry = gradientGeometry(gradient, box, toLocal);
+  return geometry.type === 'radial'
+    ? `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${n(geometry.cx)}" cy="${n(geometry.cy)}" r="${n(geometry.r)}">${stops}</radialGradient>`
+    : `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${n(geometry.x1)}" y1="${n(geometry.y1)}" x2="${n(geometry.x2)}" y2="${n(geometry.y2)}">${stops}</linearGradient>`;
+}
+
+// renderDecoratedText と同じ見た目を SVG の <text> で組み立てる
+// 影（縁取りの後ろ）→ 縁取り（外側から順に）→ 影（本体の後ろ）→ 本体 の順に重ねる
+// id はレイヤー間で衝突しないよう idPrefix を付ける
+function renderLayerSvg(spec: TextSpec, idPrefix: string, options: SvgRenderOptions) {
+  const { style } = spec;
+  const scale = options.scale ?? 1;
+  const measure = options.measureText ?? approximateMeasurer;
+  const layout = layoutText(measure, spec, options);
+
+  const defs: string[] = [];
+  const body: string[] = [];
+  let gradientSeq = 0;
+
+  // 描画単位ごとに <text> を組み立てる（char は 1 文字ずつ）
+  // 平行移動だけなら x / y で、回転・拡縮があれば transform で配置する
+  const paintLine = (
+    line: LineLayout,
+    gradient: Gradient | null,
+    solid: string,
+    pad: number,
+    attrs: (paint: string) => string,
+    shift: Matrix = IDENTITY,
+    inlineColor = false,
+  ) => {
+    const segments = gradient?.scope === 'char' ? charSegments(measure, layout, line) : line.segments;
+    return segments.map(segment => {
+      const matrix = multiply(shift, segment.matrix);
+      const translated = isTranslation(matrix);
+      const inline = inlineColor ? segment.color : undefined;
+      let paint = escapeXml(inline ?? solid);
+      if (gradient && !inline) {
+        const id = `${idPrefix}-grad${gradientSeq++}`;
+        const box = gradientBoxFor(gradient.scope, layout, line, segment, pad);
+        // x / y で置くときはキャンバス座標、transform で置くときはローカル座標に直す
+        const toTarget = translated ? multiply(matrix, invert(segment.flatMatrix)) : invert(segment.flatMatrix);
+        defs.push(gradientDef(id, gradient, box, toTarget));
+        paint = `url(#${id})`;
+      }
+      const position = translated
+        ? `x="${n(matrix[4])}" y="${n(matrix[5])}"`
+        : `x="0" y="0" transform="matrix(${matrix.map(n).join(' ')})"`;
+      const size = segment.fontSize !== layout.fontSize ? ` font-size="${n(segment.fontSize)}"` : '';
+      return `<text ${position}${size} ${attrs(paint)}>${escapeXml(segment.text)}</text>`;
+    });
+  };
+
+  // 影・光彩：ぼかした色付きの複製だけを置く（canvas の paintShadow と同じ）
+  style.shadows.forEach((shadow, i) => {
+    if (!shadow.enabled || shadow.blur <= 0) return;
+    // canvas の shadowBlur は標準偏差の 2 倍にあたる
+    defs.push(
+      `<filter id="${idPrefix}-shadow${i}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feGaussianBlur stdDeviation="${n((shadow.blur * scale) / 2)}"/></filter>`
+    );
+  });
+  const shadowElements = (line: LineLayout, placement: ShadowEntry['placement']) =>
+    style.shadows.flatMap((shadow, i) => {
+      if (!shadow.enabled || shadow.opacity <= 0 || shadow.placement !== placement) return [];
+      const isGlow = shadow.mode === 'glow';
+      const shift = isGlow ? IDENTITY : translation(shadow.offsetX * scale, shadow.offsetY * scale);
+      const color = escapeXml(shadow.color);
+      const spread = shadow.spread > 0
+        ? ` stroke="${color}" stroke-width="${n(shadow.spread * 2 * scale)}" stroke-linejoin="round"`
+        : '';
+      const filter = shadow.blur > 0 ? ` filter="url(#${idPrefix}-shadow${i})"` : '';
+      // glow は加算合成（canvas の 'lighter' 相当）
+      const blend = isGlow ? ` style="mix-blend-mode: plus-lighter"` : '';
+      // 縦書きでは複数の <text> になるので、まとめてぼかす
+      return [
+        `<g opacity="${n(shadow.opacity)}"${filter}${blend}>`,
+        ...paintLine(line, null, shadow.color, 0, paint => `fill="${paint}"${spread}`, shift),
+        `</g>`,
+      ];
+    });
+
+  // ぼかし付きの縁取り用フィルター
+  style.strokes.forEach((stroke, i) => {
+    if (stroke.blur <= 0) return;
+    // canvas の filter: blur() の半径は SVG の標準偏差と同じ値
+    defs.push(
+      `<filter id="${idPrefix}-stroke${i}-blur" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feGaussianBlur stdDeviation="${n(stroke.blur * scale)}"/></filter>`
+    );
+  });
+
+  layout.lines.forEach((line) => {
+    // 1. 影（縁取りの後ろ）
+    body.push(...shadowElements(line, 'behindStrokes'));
+
+    // 2. 縁取り（リストの末尾 = 一番外側から描く）
+    for (let i = style.strokes.length - 1; i >= 0; i--) {
+      const stroke = style.strokes[i];
+      if (stroke.width <= 0 || stroke.opacity <= 0) continue;
+
+      const lineWidth = stroke.width * 2 * scale;
+      const filter = stroke.blur > 0 ? ` filter="url(#${idPrefix}-stroke${i}-blur)"` : '';
+      body.push(
+        `<g fill="none" stroke-width="${n(lineWidth)}" stroke-linejoin="${stroke.join}" ` +
+        `opacity="${n(stroke.opacity)}"${filter}>`,
+        ...paintLine(line, stroke.colorType === 'gradient' ? stroke.gradient : null,
+          stroke.color, lineWidth, paint => `stroke="${paint}"`),
+        `</g>`,
+      );
+    }
+
+    // 3. 影（縁取りと本体の間）
+    body.push(...shadowElements(line, 'behindFill'));
+
+    // 4. テキスト本体
+    body.push(...paintLine(line, style.textColorType === 'gradient' ? style.textGradient : null,
+      style.textColor, 0, paint => `fill="${paint}"`, IDENTITY, true));
+  });
+
+  const group = [
+    `<g font-family="${escapeXml(style.fontFamily)}" font-size="${n(layout.fontSize)}" font-weight="${style.fontWeight}" ` +
+    `${style.fontStyle === 'italic' ? 'font-style="italic" ' : ''}text-anchor="middle" ` +
+    `dominant-baseline="central" stroke-miterlimit="2" xml:space="preserve">`,
+    ...body,
+    `</g>`,
+  ].join('\n');
+
+  return { defs, group };
+}
+
+// renderBackground と同じ背景を、出力サイズいっぱいの要素で組み立てる
+function renderBackgroundSvg(background: Background, options: SvgRenderOptions) {
+  const { width, height } = options;
+  const scale = options.scale ?? 1;
+  const defs: string[] = [];
+  const body: string[] = [];
+  const fullRect = (fill: string, extra = '') => `<rect width="${n(width)}" height="${n(height)}" fill="${fill}"${extra}/>`;
+
+  switch (background.type) {
+    case 'none':
+      break;
+    case 'solid':
+      body.push(fullRect(escapeXml(background.color)));
+      break;
+    case 'gradient':
+      defs.push(gradientDef('background-grad', background.gradient,
+        { cx: width / 2, cy: height / 2, width, height }));
+      body.push(fullRect('url(#background-grad)'));
+      break;
+    case 'image': {
+      body.push(fullRect(escapeXml(background.color)));
+      if (background.image) {
+        const rect = backgroundImageRect(background, background.image.width, background.image.height, width, height);
+        let filter = '';
+        if (background.blur > 0) {
+          defs.push(
+            `<filter id="background-blur" x="-10%" y="-10%" width="120%" height="120%">` +
+            `<feGaussianBlur stdDeviation="${n(background.blur * scale)}"/></filter>`
+          );
+          filter = ` filter="url(#background-blur)"`;
+        }
+        body.push(
+          `<image x="${n(rect.x)}" y="${n(rect.y)}" width="${n(rect.width)}" height="${n(rect.height)}" ` +
+          `preserveAspectRatio="none" href="${escapeXml(background.image.src)}"${filter}/>`
+        );
+      }
+      if (background.darken > 0) body.push(fullRect('#000000', ` opacity="${n(background.darken)}"`));
+      break;
+    }
+  }
+  return { defs, group: body.length > 0 ? [`<g>`, ...body, `</g>`].join('\n') : '' };
+}
+
+// 表示中のレイヤーを下から順に 1 枚の SVG にまとめる
+export function renderLayersSvg(layers: RenderableLayer[], options: SvgRenderOptions) {
+  const defs: string[] = [];
+  const groups: string[] = [];
+
+  if (options.fontFaces && options.fontFaces.length > 0) {
+    const faces = options.fontFaces.map(face =>
+      `@font-face { font-family: '${cssString(face.family)}'; src: url('${cssString(face.src)}') format('${cssString(face.format)}'); }`
+    );
+    defs.push(`<style>${escapeXml(faces.join('\n'))}</style>`);
+  }
+
+  if (options.background) {
+    const rendered = renderBackgroundSvg(options.background, options);
+    defs.push(...rendered.defs);
+    if (rendered.group) groups.push(rendered.group);
+  }
+
+  layers.forEach((layer, index) => {
+    if (!layer.visible) return;
+    const rendered = renderLayerSvg(layer, `layer${index}`, options);
+    defs.push(...rendered.defs);
+    groups.push(rendered.group);
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(options.width)}" height="${n(options.height)}" ` +
+    `viewBox="0 0 ${n(options.width)} ${n(options.height)}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    ...groups,
+    `</svg>`,
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,168 @@
+// 描画エンジンで使う型定義（DOM に依存しない）
+
+export type GradientStop = {
+  offset: number;               // 0〜1
+  color: string;                // #RRGGBB
+  alpha: number;                // 0〜1
+};
+
+// グラデーションをかける範囲：行ごと / 1 文字ごと / テキストブロック全体
+export type GradientScope = 'line' | 'char' | 'block';
+
+export type Gradient = {
+  type: 'linear' | 'radial';
+  angle: number;                // 度数法（linear のみ）
+  scope: GradientScope;
+  stops: GradientStop[];
+};
+
+// 縁取り 1 本分。width はグリフの輪郭から外側へはみ出す幅（lineWidth の半分）
+export type StrokeEntry = {
+  id: string;
+  colorType: 'solid' | 'gradient';
+  color: string;
+  gradient: Gradient;
+  width: number;
+  join: 'round' | 'miter' | 'bevel';
+  opacity: number;              // 0〜1
+  blur: number;                 // px（0 でぼかしなし）
+};
+
+// 影・光彩 1 つ分
+// glow は位置をずらさず加算合成で重ねる（ネオンのような発光）
+export type ShadowEntry = {
+  id: string;
+  enabled: boolean;
+  mode: 'shadow' | 'glow';
+  color: string;
+  opacity: number;              // 0〜1
+  offsetX: number;              // glow では無視する
+  offsetY: number;
+  blur: number;                 // canvas の shadowBlur と同じ尺度（標準偏差の 2 倍）
+  spread: number;               // 影の形を外側へ広げる幅
+  placement: 'behindStrokes' | 'behindFill';   // 縁取りの後ろ / 縁取りと本体の間
+};
+
+// 文字を 1 つずつ動かす変形（強さは 0〜100、perspective だけ -100〜100 で向きを変えられる）
+export type WarpType = 'none' | 'arcUp' | 'arcDown' | 'wave' | 'bulge' | 'perspective';
+
+// テキストブロック全体の変形（ブロックの中心を基準にする）
+export type TextTransform = {
+  rotation: number;             // 度（時計回り）
+  skewX: number;                // 度
+  scaleX: number;               // 倍率
+  scaleY: number;
+  warp: WarpType;
+  warpStrength: number;
+};
+
+// 指定の枠に収まるよう縮める（枠はドキュメント座標、縁取りも含めて収める）
+export type AutoFit = {
+  mode: 'off' | 'lines' | 'block';   // lines は行ごと、block は全体をまとめて縮める
+  maxWidth: number;
+  maxHeight: number;
+};
+
+export type TextStyle = {
+  fontFamily: string;
+  fontWeight: number;           // 100〜900（同じファミリーの太さ違いを選ぶ）
+  fontStyle: 'normal' | 'italic';
+  fontSize: number;
+  lineHeight: number;           // fontSize に対する倍率
+  letterSpacing: number;        // 字間（文字サイズに対する割合、負の値で詰める）
+  textAlign: 'start' | 'center' | 'end';   // 横書きは左・中央・右、縦書きは上・中央・下
+  lineScales: number[];         // 行ごとの文字サイズの倍率（足りない行は 1）
+  autoFit: AutoFit;
+  textColorType: 'solid' | 'gradient';
+  textColor: string;
+  textGradient: Gradient;
+  strokes: StrokeEntry[];       // 先頭が内側（本体の直下）、末尾が一番外側
+  shadows: ShadowEntry[];       // 同じ placement 内では先頭から順に重ねる
+  writingMode: 'horizontal' | 'vertical';   // vertical は縦書き（列は右から左）
+  transform: TextTransform;     // 文字ごとの変形 → 全体の変形 の順に掛ける
+};
+
+// 背景に敷く画像（src は data URI。プロジェクトファイルにそのまま保存する）
+export type BackgroundImage = {
+  src: string;
+  width: number;                // 元画像のピクセル数
+  height: number;
+  name: string;
+};
+
+// cover は全面を覆う、contain は全体を収める、crop は元画像の一部（crop）で全面を覆う
+export type BackgroundFit = 'cover' | 'contain' | 'crop';
+
+// テキストの後ろに敷く背景（出力サイズ全体）
+export type Background = {
+  type: 'none' | 'solid' | 'gradient' | 'image';
+  color: string;                // solid の色。image では余白（contain）を埋める色
+  gradient: Gradient;
+  image: BackgroundImage | null;
+  fit: BackgroundFit;
+  positionX: number;            // 0〜1：はみ出す／余る向きの寄せ（0.5 で中央）
+  positionY: number;
+  crop: Rect;                   // crop で使う元画像の範囲（0〜1 の割合）
+  blur: number;                 // px（画像のみ）
+  darken: number;               // 0〜1：画像の上に重ねる黒の濃さ
+  includeInExport: boolean;     // false ならプレビューで見るだけ（書き出しは透過のまま）
+};
+
+export type TextSpec = {
+  text: string;
+  style: TextStyle;
+  offsetX: number;              // キャンバス中央からのズレ
+  offsetY: number;
+  reveal?: number;              // 先頭から何文字だけ描くか（アニメーション用。省略ですべて、配置は全文のまま）
+};
+
+// 重ねて描画するときの 1 枚分（非表示のものは描かない）
+export type RenderableLayer = TextSpec & {
+  visible: boolean;
+};
+
+export type RenderOptions = {
+  width: number;                // 描画先の幅（px）
+  height: number;               // 描画先の高さ（px）
+  scale?: number;               // スタイル・位置に掛ける倍率（既定 1）
+};
+
+// 中心と大きさで表す箱（グラデーションの範囲など）
+export type CenterBox = {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+};
+
+export type Rect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// renderDecoratedText が触る 2D コンテキストの範囲
+// テストでは記録用のスタブを渡せるよう、必要なメンバーだけに絞っている
+export type DrawingContext = Pick<
+  CanvasRenderingContext2D,
+  | 'font'
+  | 'textAlign'
+  | 'textBaseline'
+  | 'lineJoin'
+  | 'miterLimit'
+  | 'fillStyle'
+  | 'strokeStyle'
+  | 'lineWidth'
+  | 'globalAlpha'
+  | 'filter'
+  | 'globalCompositeOperation'
+  | 'save'
+  | 'restore'
+  | 'fillText'
+  | 'strokeText'
+  | 'measureText'
+  | 'createLinearGradient'
+  | 'createRadialGradient'
+  | 'transform'
+>;
@@ -0,0 +1,93 @@
+import { compose, IDENTITY, rotation, scaling, skewing, translation, type Matrix } from './matrix';
+import type { Rect, TextTransform } from './types';
+
+const DEG = Math.PI / 180;
+
+// 文字ごとの変形を掛けるか（掛けるときは横書きの行も 1 文字ずつに分ける）
+export function hasGlyphWarp(transform: TextTransform) {
+  return transform.warp !== 'none' && transform.warpStrength !== 0;
+}
+
+// テキストブロック全体の変形：中心を基準に 拡大縮小 → 傾き → 回転 の順
+export function blockTransform(transform: TextTransform, block: Rect): Matrix {
+  const { rotation: angle, skewX, scaleX, scaleY } = transform;
+  if (angle === 0 && skewX === 0 && scaleX === 1 && scaleY === 1) return IDENTITY;
+  const cx = block.x + block.width / 2;
+  const cy = block.y + block.height / 2;
+  return compose(
+    translation(cx, cy),
+    rotation(angle * DEG),
+    skewing(skewX * DEG),
+    scaling(scaleX, scaleY),
+    translation(-cx, -cy),
+  );
+}
+
+// 文字 1 つ分の変形。(x, y) は変形前の文字の中心
+// 行の進む向きを along、それと直交する向きを across とした座標で計算する
+// （縦書きは 90° 回して横書きと同じ式を使う）
+export function glyphWarp(
+  transform: TextTransform,
+  x: number,
+  y: number,
+  frame: { block: Rect; vertical: boolean; fontSize: number },
+): Matrix {
+  const { block, vertical, fontSize } = frame;
+  const k = transform.warpStrength / 100;
+  const cx = block.x + block.width / 2;
+  const cy = block.y + block.height / 2;
+  const half = Math.max(1, (vertical ? block.height : block.width) / 2);
+
+  // キャンバス座標 → (along, across)
+  const toFrame = compose(vertical ? rotation(-Math.PI / 2) : IDENTITY, translation(-cx, -cy));
+  const fromFrame = compose(translation(cx, cy), vertical ? rotation(Math.PI / 2) : IDENTITY);
+  const [a, c] = vertical ? [y - cy, cx - x] : [x - cx, y - cy];
+  const u = Math.max(-1, Math.min(1, a / half));
+
+  let warp: Matrix = IDENTITY;
+  switch (transform.warp) {
+    case 'arcUp':
+    case 'arcDown': {
+      // 円弧に沿わせる。強さ 100 で半円
+      if (k === 0) break;
+      const sign = transform.warp === 'arcUp' ? 1 : -1;
+      const radius = (2 * half) / (k * Math.PI);
+      const theta = a / radius;
+      const r = radius - sign * c;
+      warp = compose(
+        translation(r * Math.sin(theta), sign * radius - sign * r * Math.cos(theta)),
+        rotation(sign * theta),
+        translation(-a, -c),
+      );
+      break;
+    }
+    case 'wave': {
+      // ブロックの幅で 1 周期。振れ幅は強さ 100 で文字サイズの半分
+      const amplitude = k * fontSize * 0.5;
+      const omega = Math.PI / half;
+      const slope = amplitude * omega * Math.cos(omega * a);
+      warp = compose(
+        translation(a, c + amplitude * Math.sin(omega * a)),
+        rotation(Math.atan(slope)),
+        translation(-a, -c),
+      );
+      break;
+    }
+    case 'bulge': {
+      // 中央ほど大きく。文字の間隔も大きさに合わせて広げる
+      const size = 1 + 0.6 * k * (1 - u * u);
+      const along = a + 0.6 * k * (a - (a * a * a) / (3 * half * half));
+      warp = compose(translation(along, c), scaling(size), translation(-a, -c));
+      break;
+    }
+    case 'perspective': {
+      // 片側を手前、反対側を奥に見せる（負の強さで左右が入れ替わる）
+      const size = Math.max(0.1, 1 + 0.5 * k * u);
+      const along = a + 0.25 * k * a * u;
+      warp = compose(translation(along, c), scaling(size), translation(-a, -c));
+      break;
+    }
+  }
+
+  return compose(fromFrame, warp, toFrame);
+}
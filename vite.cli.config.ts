@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite'
+
+// コマンドライン版（cli/）を Node 用の 1 ファイルにまとめる
+// npm run build:cli → dist-cli/text-generator.js
+// フォントは public/ から直接読むので、public/ の中身はコピーしない
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'text-generator.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})